@@ -24,7 +24,7 @@ export const defaultTemplate: DocumentTemplateV1 = {
   },
   variables: {
     titleLine: "concat(constants.companyName, ' — Loan ', inputs.loanNumber)",
-    amountLine: "concat('Amount: $', inputs.amount)",
+    amountLine: "concat('Amount: ', formatCurrency(inputs.amount, 'USD'))",
   },
   elements: [
     {
@@ -1,23 +1,28 @@
 import React from 'react'
-import { TemplateDesigner } from 'doc-template-kit'
-import type { DocumentTemplateV1 } from 'doc-template-kit'
+import { TemplateDesigner, packTemplate } from 'doc-template-kit'
+import type { DocumentTemplatePackageV1 } from 'doc-template-kit'
 import { defaultInputs, defaultTemplate } from '../demo/defaultTemplate'
 import { downloadJson } from '../demo/download'
 
 export function DesignerPage() {
-  const [template, setTemplate] = React.useState<DocumentTemplateV1>(defaultTemplate)
+  const [pkg, setPkg] = React.useState<DocumentTemplatePackageV1>({ template: defaultTemplate })
   const [sampleInputs, setSampleInputs] = React.useState<Record<string, unknown>>(defaultInputs)
 
-  const onSave = (tpl: DocumentTemplateV1) => {
-    downloadJson('doc-template.v1.json', tpl)
+  const onSave = async (next: DocumentTemplatePackageV1) => {
+    // Embeds the referenced images (e.g. /logo.png) so the saved file is self-contained.
+    try {
+      downloadJson('doc-template.package.json', await packTemplate(next))
+    } catch (err) {
+      alert((err as Error).message)
+    }
   }
 
   return (
     <div style={{ display: 'grid', gap: 16 }}>
       <h2 style={{ margin: 0 }}>Designer</h2>
       <TemplateDesigner
-        template={template}
-        onTemplateChange={setTemplate}
+        template={pkg}
+        onTemplateChange={setPkg}
         sampleInputs={sampleInputs}
         onSampleInputsChange={setSampleInputs}
         onSave={onSave}
@@ -1,26 +1,30 @@
 import React from 'react'
-import { TemplateEvaluator } from 'doc-template-kit'
-import type { DocumentTemplateV1 } from 'doc-template-kit'
+import { TemplateEvaluator, isTemplatePackage, migrateTemplate, validateTemplate } from 'doc-template-kit'
+import type { DocumentTemplatePackageV1, DocumentTemplateV1 } from 'doc-template-kit'
 import { defaultInputs, defaultTemplate } from '../demo/defaultTemplate'
 
-function isTemplateV1(x: any): x is DocumentTemplateV1 {
-  return x && typeof x === 'object' && x.schemaVersion === 'docTemplate-v1'
-}
-
 export function EvaluatorPage() {
-  const [template, setTemplate] = React.useState<DocumentTemplateV1>(defaultTemplate)
+  const [template, setTemplate] = React.useState<DocumentTemplateV1 | DocumentTemplatePackageV1>(defaultTemplate)
   const [inputs, setInputs] = React.useState<Record<string, unknown>>(defaultInputs)
+  const [migrationNotice, setMigrationNotice] = React.useState<string[]>([])
 
   const onImportFile = async (file: File) => {
     const text = await file.text()
     const parsed = JSON.parse(text)
+    const pkg = isTemplatePackage(parsed) ? parsed : null
+    const { template: migrated, changes } = migrateTemplate(pkg ? pkg.template : parsed)
 
-    if (isTemplateV1(parsed)) {
-      setTemplate(parsed)
+    const { valid, diagnostics } = validateTemplate(migrated)
+    if (valid) {
+      setTemplate(pkg ? { ...pkg, template: migrated } : migrated)
+      setMigrationNotice(changes)
       return
     }
 
-    throw new Error('Unsupported JSON format (expected template v1 or package v1)')
+    const errors = diagnostics.filter((d) => d.severity === 'error')
+    const lines = errors.slice(0, 10).map((d) => `${d.path}: ${d.message}`)
+    if (errors.length > lines.length) lines.push(`…and ${errors.length - lines.length} more`)
+    throw new Error(`Invalid template:\n${lines.join('\n')}`)
   }
 
   return (
@@ -50,12 +54,24 @@ export function EvaluatorPage() {
           onClick={() => {
             setTemplate(defaultTemplate)
             setInputs(defaultInputs)
+            setMigrationNotice([])
           }}
         >
           Reset demo
         </button>
       </div>
 
+      {migrationNotice.length > 0 && (
+        <div style={{ fontSize: 12, padding: 10, border: '1px solid #FDE68A', background: '#FFFBEB', borderRadius: 8 }}>
+          <div style={{ fontWeight: 600 }}>The imported template was upgraded to the current format:</div>
+          <ul style={{ margin: '4px 0 0', paddingLeft: 18 }}>
+            {migrationNotice.map((change, i) => (
+              <li key={i}>{change}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <TemplateEvaluator
         template={template}
         inputs={inputs}
@@ -0,0 +1,224 @@
+import { readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { parseArgs } from 'node:util'
+import type { AssetResolver, DocumentTemplatePackageV1 } from '../core/types'
+import { buildEvalContext, formatExpressionError, TemplateEvaluationError } from '../core/evaluate'
+import { getAllElements } from '../core/pages'
+import { isTemplatePackage, packTemplate } from '../core/assets'
+import { validateTemplate } from '../core/validate'
+import { migrateTemplate } from '../core/migrate'
+import { renderPdf } from '../core/headless'
+
+const USAGE = `Usage: doc-template-kit <command> <template.json> [options]
+
+Commands:
+  render <template.json>     Render the template to PDF
+  validate <template.json>   Check the template structure and expressions
+  vars <template.json>       Print the evaluated variables and their errors
+  assets <template.json>     List the image refs used by the template
+  pack <template.json>       Embed the template's images into a self-contained package JSON
+
+Template files may also be packages ({ template, assets }); embedded images are used before --assets.
+
+Options:
+  -i, --inputs <file>        JSON file with input values (render, vars)
+  -o, --out <file>           Output path (render: defaults to <template file name>.pdf; pack: defaults to stdout)
+  -a, --assets <dir>         Directory image refs are resolved against (render, pack; defaults to the template's
+                             directory)
+  -l, --locale <locale>      Override the template's locale, e.g. es-MX (render, vars)
+  -z, --time-zone <zone>     Override the template's time zone, e.g. America/Mexico_City (render, vars)
+  -s, --strict               Fail instead of rendering when any expression has an error (render)
+  -h, --help                 Show this help
+`
+
+const MIME_BY_EXT: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp',
+}
+
+class UsageError extends Error {}
+
+async function readJson(file: string): Promise<unknown> {
+  const text = await readFile(file, 'utf8')
+  try {
+    return JSON.parse(text)
+  } catch (e) {
+    throw new Error(`${file}: invalid JSON (${(e as Error).message})`)
+  }
+}
+
+// Reads a template or package. Older templates are upgraded in memory; the file itself is left alone.
+async function readTemplate(file: string): Promise<Required<DocumentTemplatePackageV1>> {
+  const json = await readJson(file)
+  const pkg = isTemplatePackage(json) ? json : null
+  const { template, fromVersion, toVersion, changes } = migrateTemplate(pkg ? pkg.template : json)
+  if (changes.length > 0) console.error(`note: ${file}: migrated from ${fromVersion} to ${toVersion}`)
+  return { template, assets: pkg?.assets ?? {} }
+}
+
+async function readInputs(file: string | undefined): Promise<Record<string, unknown>> {
+  if (!file) return {}
+  const json = await readJson(file)
+  if (!json || typeof json !== 'object' || Array.isArray(json)) throw new Error(`${file}: inputs must be a JSON object`)
+  return json as Record<string, unknown>
+}
+
+// Refs that aren't URLs are read from disk and embedded as data URLs. Refs come from the template, so only image files
+// inside `dir` are read.
+function createFileAssetResolver(dir: string): AssetResolver {
+  const root = path.resolve(dir)
+  return async (ref) => {
+    if (/^(https?:|data:)/i.test(ref)) return ref
+    const file = path.resolve(root, ref.replace(/^\/+/, ''))
+    const relative = path.relative(root, file)
+    if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+      throw new Error(`Image ref "${ref}" is outside the assets directory ${root}`)
+    }
+    const ext = path.extname(file).toLowerCase()
+    const mime = Object.prototype.hasOwnProperty.call(MIME_BY_EXT, ext) ? MIME_BY_EXT[ext] : undefined
+    if (!mime) {
+      throw new Error(`Image ref "${ref}" is not a supported image file (${Object.keys(MIME_BY_EXT).join(', ')})`)
+    }
+    const data = await readFile(file)
+    return `data:${mime};base64,${data.toString('base64')}`
+  }
+}
+
+type CliOptions = {
+  inputs?: string
+  out?: string
+  assets?: string
+  locale?: string
+  'time-zone'?: string
+  strict?: boolean
+}
+
+async function runRender(file: string, opts: CliOptions): Promise<number> {
+  const pkg = await readTemplate(file)
+  const inputs = await readInputs(opts.inputs)
+  const assetResolver = createFileAssetResolver(opts.assets ?? path.dirname(file))
+
+  let rendered
+  try {
+    rendered = await renderPdf(pkg, inputs, {
+      assetResolver,
+      locale: opts.locale,
+      timeZone: opts['time-zone'],
+      strict: opts.strict,
+    })
+  } catch (e) {
+    if (!(e instanceof TemplateEvaluationError)) throw e
+    for (const error of e.errors) console.error(`error: ${formatExpressionError(error)}`)
+    console.error(`${file}: not rendered (${e.errors.length} expression errors)`)
+    return 1
+  }
+  const { bytes, errors } = rendered
+  for (const e of errors) console.error(`warning: ${e}`)
+
+  // Named after the template file rather than meta.name, which comes from the template and could contain a path.
+  const out = opts.out ?? `${path.basename(file, path.extname(file))}.pdf`
+  await writeFile(out, bytes)
+  console.log(`Wrote ${out}`)
+  return 0
+}
+
+async function runValidate(file: string): Promise<number> {
+  const { valid, diagnostics } = validateTemplate((await readTemplate(file)).template)
+  for (const d of diagnostics) console.error(`${file}: ${d.severity}: ${d.path}: ${d.message}`)
+  if (valid) console.log(`${file}: OK`)
+  return valid ? 0 : 1
+}
+
+async function runVars(file: string, opts: CliOptions): Promise<number> {
+  const { template } = await readTemplate(file)
+  const { ctx, errors } = buildEvalContext(template, await readInputs(opts.inputs), undefined, {
+    locale: opts.locale,
+    timeZone: opts['time-zone'],
+  })
+  console.log(JSON.stringify(ctx.vars, null, 2))
+  for (const e of errors) console.error(`error: ${e}`)
+  return errors.length > 0 ? 1 : 0
+}
+
+async function runAssets(file: string): Promise<number> {
+  const { template, assets } = await readTemplate(file)
+  const byRef = new Map<string, string[]>()
+  for (const el of getAllElements(template)) {
+    if (el.type !== 'image') continue
+    byRef.set(el.imageRef, [...(byRef.get(el.imageRef) ?? []), el.id])
+  }
+  for (const [ref, ids] of byRef) {
+    const embedded = Object.prototype.hasOwnProperty.call(assets, ref) ? '\t(embedded)' : ''
+    console.log(`${ref}\t${ids.join(', ')}${embedded}`)
+  }
+  return 0
+}
+
+async function runPack(file: string, opts: CliOptions): Promise<number> {
+  const pkg = await readTemplate(file)
+  const packed = await packTemplate(pkg, createFileAssetResolver(opts.assets ?? path.dirname(file)))
+  const json = `${JSON.stringify(packed, null, 2)}\n`
+
+  if (!opts.out) {
+    process.stdout.write(json)
+    return 0
+  }
+  await writeFile(opts.out, json)
+  console.log(`Wrote ${opts.out}`)
+  return 0
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      inputs: { type: 'string', short: 'i' },
+      out: { type: 'string', short: 'o' },
+      assets: { type: 'string', short: 'a' },
+      locale: { type: 'string', short: 'l' },
+      'time-zone': { type: 'string', short: 'z' },
+      strict: { type: 'boolean', short: 's' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+
+  const [command, file] = positionals
+  if (values.help || !command) {
+    console.log(USAGE)
+    return 0
+  }
+  if (!file) throw new UsageError(`Missing template file for "${command}"`)
+
+  switch (command) {
+    case 'render':
+      return runRender(file, values)
+    case 'validate':
+      return runValidate(file)
+    case 'vars':
+      return runVars(file, values)
+    case 'assets':
+      return runAssets(file)
+    case 'pack':
+      return runPack(file, values)
+    default:
+      throw new UsageError(`Unknown command "${command}"`)
+  }
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code
+  },
+  (e: unknown) => {
+    console.error(`doc-template-kit: ${e instanceof Error ? e.message : String(e)}`)
+    const isParseArgsError = e instanceof Error && 'code' in e && String(e.code).startsWith('ERR_PARSE_ARGS')
+    const isUsageError = e instanceof UsageError || isParseArgsError
+    if (isUsageError) console.error(`\n${USAGE}`)
+    process.exitCode = isUsageError ? 2 : 1
+  },
+)
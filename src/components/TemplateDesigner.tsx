@@ -1,12 +1,49 @@
 import React from 'react'
 import { createPortal } from 'react-dom'
-import type { AssetResolver, DocumentTemplateV1, LineElementV1, TemplateV1Element, TextStyleV1 } from '../core/types'
-import { buildEvalContext } from '../core/evaluate'
+import type {
+  AssetResolver,
+  DocumentPageV1,
+  DocumentTemplatePackageV1,
+  DocumentTemplateV1,
+  FunctionMap,
+  LineElementV1,
+  PackageAssetV1,
+  PageOrientation,
+  PageSize,
+  TableBorderV1,
+  TableBordersV1,
+  TableColumnV1,
+  TableElementV1,
+  TableRowStyleV1,
+  TemplateV1Element,
+  TextStyleV1,
+} from '../core/types'
+import { buildEvalContext, evaluateTemplate, formatErrorSource } from '../core/evaluate'
 import { DocumentPreview } from '../core/render'
-import { openPdfPreviewFromElement } from '../core/pdf'
+import { openPdfPreview, type PdfBackend } from '../core/pdf'
+import {
+  createPackageAssetResolver,
+  getImageRefs,
+  isTemplatePackage,
+  resolveImage,
+  unpackTemplate,
+} from '../core/assets'
 import { TemplateInputForm } from './TemplateInputForm'
+import { evalTableRows, getTableColumnWidthsPct } from '../core/layout'
 import { clampNumber, getPageSizePt, mmToPt, ptToMm, pxToPt } from '../core/units'
-import { defaultFunctions, FUNCTION_DOCS } from '../core/expr'
+import { defaultFunctions, FUNCTION_DOCS, type ExpressionError, type FunctionDoc } from '../core/expr'
+import {
+  findElementPageIndex,
+  getAllElements,
+  findElementBand,
+  getBandElements,
+  getPageElements,
+  getTemplatePages,
+  mapTemplateElements,
+  setBandElements,
+  setPageElements,
+  type PageBandKind,
+} from '../core/pages'
 
 function newId(prefix: string): string {
   const anyCrypto = globalThis.crypto as any
@@ -14,15 +51,88 @@ function newId(prefix: string): string {
   return `${prefix}_${Math.random().toString(16).slice(2)}`
 }
 
+function findElement(template: DocumentTemplateV1, id: string): TemplateV1Element | undefined {
+  return getAllElements(template).find((e) => e.id === id)
+}
+
+// The element list being edited: a page, or the header/footer band shown on every page.
+type EditSurface = { pageIndex: number; band: PageBandKind | null }
+
+function getElementSurface(template: DocumentTemplateV1, id: string): EditSurface {
+  const band = findElementBand(template, id)
+  if (band) return { pageIndex: 0, band }
+  return { pageIndex: Math.max(0, findElementPageIndex(template, id)), band: null }
+}
+
+function getSurfaceElements(template: DocumentTemplateV1, surface: EditSurface): TemplateV1Element[] {
+  return surface.band ? getBandElements(template, surface.band) : getPageElements(template, surface.pageIndex)
+}
+
+function setSurfaceElements(
+  template: DocumentTemplateV1,
+  surface: EditSurface,
+  elements: TemplateV1Element[],
+): DocumentTemplateV1 {
+  return surface.band
+    ? setBandElements(template, surface.band, elements)
+    : setPageElements(template, surface.pageIndex, elements)
+}
+
+/** Elements that share a surface with `id` (including the element itself). */
+function getSiblingElements(template: DocumentTemplateV1, id: string): TemplateV1Element[] {
+  return getSurfaceElements(template, getElementSurface(template, id))
+}
+
 function updateElement(template: DocumentTemplateV1, el: TemplateV1Element): DocumentTemplateV1 {
-  return {
-    ...template,
-    elements: template.elements.map((e) => (e.id === el.id ? el : e)),
-  }
+  return mapTemplateElements(template, (elements) => elements.map((e) => (e.id === el.id ? el : e)))
 }
 
 function removeElement(template: DocumentTemplateV1, id: string): DocumentTemplateV1 {
-  return { ...template, elements: template.elements.filter((e) => e.id !== id) }
+  return mapTemplateElements(template, (elements) => elements.filter((e) => e.id !== id))
+}
+
+function getElementSurfaceSizePt(template: DocumentTemplateV1, id: string): { wPt: number; hPt: number } {
+  const surface = getElementSurface(template, id)
+  const page = getTemplatePages(template)[surface.pageIndex]!
+  const area = surface.band ? page[surface.band]?.rect : undefined
+  return area ? { wPt: area.wPt, hPt: area.hPt } : { wPt: page.wPt, hPt: page.hPt }
+}
+
+function addElementToSurface(
+  template: DocumentTemplateV1,
+  surface: EditSurface,
+  el: TemplateV1Element,
+): DocumentTemplateV1 {
+  return setSurfaceElements(template, surface, [...getSurfaceElements(template, surface), el])
+}
+
+function renameImageRef(template: DocumentTemplateV1, from: string, to: string): DocumentTemplateV1 {
+  return mapTemplateElements(template, (elements) =>
+    elements.map((e) => (e.type === 'image' && e.imageRef === from ? { ...e, imageRef: to } : e)),
+  )
+}
+
+/** Renames an object key without moving it to the end (keeps the Assets list order stable). */
+function renameKey<V>(obj: Record<string, V>, from: string, to: string): Record<string, V> {
+  return Object.fromEntries(Object.entries(obj).map(([k, v]) => [k === from ? to : k, v]))
+}
+
+function readFileAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result))
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`))
+    reader.readAsDataURL(file)
+  })
+}
+
+function loadsAsImage(url: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const img = new Image()
+    img.onload = () => resolve(true)
+    img.onerror = () => resolve(false)
+    img.src = url
+  })
 }
 
 function uniqKey(prefix: string, existing: Set<string>): string {
@@ -42,6 +152,131 @@ function parseJsonOrString(raw: string): unknown {
   }
 }
 
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/
+
+const TABLE_BORDER_EDGES: Array<[keyof TableBordersV1, string]> = [
+  ['top', 'Top'],
+  ['right', 'Right'],
+  ['bottom', 'Bottom'],
+  ['left', 'Left'],
+  ['horizontal', 'Between rows'],
+  ['vertical', 'Between columns'],
+]
+
+/** `base.key`, or `base["key"]` when `key` isn't a valid identifier. */
+function memberExpr(base: string, key: string): string {
+  return IDENTIFIER.test(key) ? `${base}.${key}` : `${base}[${JSON.stringify(key)}]`
+}
+
+/** One column per property of a sample row (at most six), or a single `{{ row }}` column for other rows. */
+function columnsFromSampleRow(row: unknown): TableColumnV1[] {
+  const keys = row != null && typeof row === 'object' && !Array.isArray(row) ? Object.keys(row).slice(0, 6) : []
+  if (keys.length === 0) return [{ key: 'value', header: 'Value', cellTpl: '{{ row }}' }]
+  return keys.map((key) => ({ key, header: key, cellTpl: `{{ ${memberExpr('row', key)} }}` }))
+}
+
+/** Rounds widths to 0.1% after scaling them by `factor`. */
+function scaleWidthsPct(columns: TableColumnV1[], factor: number): TableColumnV1[] {
+  return columns.map((c) => (c.widthPct ? { ...c, widthPct: Math.round(c.widthPct * factor * 10) / 10 } : c))
+}
+
+/** The errors of one inspector field, each with the failing spot of `value` underlined. */
+function FieldErrors({ value, errors }: { value: string; errors: ExpressionError[] }) {
+  if (errors.length === 0) return null
+  return (
+    <div style={{ display: 'grid', gap: 6 }}>
+      {errors.map((e, i) => {
+        const at = Math.min(e.source.templateOffset ?? e.offset, value.length)
+        // Underline the identifier at the error (e.g. an unknown function name), or a single character.
+        const end = at + Math.max(1, /^[\w$]*/.exec(value.slice(at))![0].length)
+        const from = Math.max(0, at - 30)
+        const to = Math.min(value.length, end + 30)
+        return (
+          <div key={i} style={{ fontSize: 12, color: '#B91C1C' }}>
+            <div style={{ fontFamily: 'monospace', whiteSpace: 'pre-wrap', color: '#111827' }}>
+              {from > 0 && '…'}
+              {value.slice(from, at)}
+              <span style={{ textDecoration: 'underline wavy #DC2626', background: '#FEE2E2' }}>
+                {value.slice(at, end) || ' '}
+              </span>
+              {value.slice(end, to)}
+              {to < value.length && '…'}
+            </div>
+            {e.message}
+            {e.source.row != null && ` (row ${e.source.row + 1})`}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+/**
+ * Edits a ref or key as a draft and renames on blur or Enter, so typing doesn't rewrite the template (and push an
+ * undo step) per keystroke. Empty names and names already in `taken` are refused with `emptyError` / `takenError`;
+ * Escape restores `value`.
+ */
+function RenameInput({
+  value,
+  taken,
+  emptyError,
+  takenError,
+  onRename,
+}: {
+  value: string
+  taken: string[]
+  emptyError: string
+  takenError: string
+  onRename: (next: string) => void
+}) {
+  const [draft, setDraft] = React.useState(value)
+  React.useEffect(() => setDraft(value), [value])
+
+  const next = draft.trim()
+  const error = !next ? emptyError : next !== value && taken.includes(next) ? takenError : null
+
+  const commit = () => {
+    if (error || next === value) {
+      setDraft(value)
+      return
+    }
+    onRename(next)
+  }
+
+  return (
+    <>
+      <input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit()
+          if (e.key === 'Escape') setDraft(value)
+        }}
+      />
+      {error && <div style={{ fontSize: 12, color: '#B91C1C' }}>{error}</div>}
+    </>
+  )
+}
+
+/**
+ * React keys for table columns that follow a column when it moves. Column keys are unique in valid templates;
+ * repeats in older ones get a suffix.
+ */
+function columnReactKeys(columns: TableColumnV1[]): string[] {
+  const seen = new Map<string, number>()
+  return columns.map((col) => {
+    const n = seen.get(col.key) ?? 0
+    seen.set(col.key, n + 1)
+    return n === 0 ? col.key : `${col.key}#${n}`
+  })
+}
+
+type HistoryEntry = {
+  template: DocumentTemplateV1
+  assets?: Record<string, PackageAssetV1>
+}
+
 type DragState = {
   id: string
   startClientX: number
@@ -73,6 +308,15 @@ type ResizeDragState = {
   pageHPt: number
 }
 
+type ColumnResizeDragState = {
+  id: string
+  /** The dragged border is between columns `colIdx` and `colIdx + 1`. */
+  colIdx: number
+  startClientX: number
+  baseWidthsPct: number[]
+  tableWPt: number
+}
+
 type SpacingGuideLinePt = {
   x1Pt: number
   y1Pt: number
@@ -81,22 +325,67 @@ type SpacingGuideLinePt = {
   label: string
 }
 
-export function TemplateDesigner({
-  template,
-  onTemplateChange,
+export function TemplateDesigner<T extends DocumentTemplateV1 | DocumentTemplatePackageV1>({
+  template: source,
+  onTemplateChange: onSourceChange,
   sampleInputs,
   onSampleInputsChange,
-  assetResolver,
+  assetResolver: hostAssetResolver,
   onSave,
+  onUploadAsset,
+  pdfBackend = 'raster',
+  functions,
+  functionDocs,
 }: {
-  template: DocumentTemplateV1
-  onTemplateChange: (next: DocumentTemplateV1) => void
+  /** A template, or a package whose embedded images are used before `assetResolver`. Edits keep the same shape. */
+  template: T
+  onTemplateChange: (next: T) => void
   sampleInputs?: Record<string, unknown>
   onSampleInputsChange?: (next: Record<string, unknown>) => void
   assetResolver?: AssetResolver
-  onSave: (template: DocumentTemplateV1) => void
+  onSave: (template: T) => void
+  /**
+   * Stores an image added in the Assets tab and returns the `imageRef` to use. Without it, images are embedded as
+   * data URLs (in the package's `assets` when `template` is a package, otherwise in `imageRef` itself).
+   */
+  onUploadAsset?: (file: File) => Promise<string>
+  /** How the PDF preview is built (defaults to capturing the preview). */
+  pdfBackend?: PdfBackend
+  /** Host functions available to expressions in addition to the built-in helpers (preview, checks and PDF). */
+  functions?: FunctionMap
+  /** Documentation for `functions`, listed with the built-ins in the "Valid operations" modal. */
+  functionDocs?: Record<string, FunctionDoc>
 }) {
+  const { template } = unpackTemplate(source)
+  const sourceRef = React.useRef(source)
+  const packageAssets = isTemplatePackage(source) ? source.assets : undefined
+  const assetResolver = React.useMemo(
+    () => createPackageAssetResolver(packageAssets, hostAssetResolver),
+    [packageAssets, hostAssetResolver],
+  )
+
+  const getSourceAssets = React.useCallback((): Record<string, PackageAssetV1> | undefined => {
+    const current = sourceRef.current
+    return isTemplatePackage(current) ? current.assets : undefined
+  }, [])
+
+  // Edits operate on the template; a package is re-wrapped so its assets are kept (or replaced by `assets`).
+  const wrapTemplate = React.useCallback(
+    (next: DocumentTemplateV1, assets = getSourceAssets()): T => {
+      const current = sourceRef.current
+      return (isTemplatePackage(current) ? { ...current, template: next, assets } : next) as T
+    },
+    [getSourceAssets],
+  )
+  const onTemplateChange = React.useCallback(
+    (next: DocumentTemplateV1, assets?: Record<string, PackageAssetV1>) =>
+      onSourceChange(wrapTemplate(next, assets ?? getSourceAssets())),
+    [getSourceAssets, onSourceChange, wrapTemplate],
+  )
+
   const [selectedId, setSelectedId] = React.useState<string | null>(template.elements[0]?.id ?? null)
+  const [activePageIndex, setActivePageIndex] = React.useState(0)
+  const [activeBand, setActiveBand] = React.useState<PageBandKind | null>(null)
   const previewWrapRef = React.useRef<HTMLDivElement | null>(null)
   const templateRef = React.useRef(template)
 
@@ -179,7 +468,8 @@ export function TemplateDesigner({
     setUncontrolledSampleInputs(sampleInputs ?? {})
   }, [isSampleInputsControlled, sampleInputs])
 
-  const historyRef = React.useRef<{ past: DocumentTemplateV1[]; future: DocumentTemplateV1[] }>({
+  // Package assets are recorded alongside the template so undoing a rename in the Assets tab restores both.
+  const historyRef = React.useRef<{ past: HistoryEntry[]; future: HistoryEntry[] }>({
     past: [],
     future: [],
   })
@@ -199,13 +489,15 @@ export function TemplateDesigner({
   const [drag, setDrag] = React.useState<DragState | null>(null)
   const [lineEndpointDrag, setLineEndpointDrag] = React.useState<LineEndpointDragState | null>(null)
   const [resizeDrag, setResizeDrag] = React.useState<ResizeDragState | null>(null)
+  const [columnResizeDrag, setColumnResizeDrag] = React.useState<ColumnResizeDragState | null>(null)
   const [isPdfPreviewing, setIsPdfPreviewing] = React.useState(false)
   const rafRef = React.useRef<number | null>(null)
   const pendingElRef = React.useRef<TemplateV1Element | null>(null)
 
   React.useEffect(() => {
     templateRef.current = template
-  }, [template])
+    sourceRef.current = source
+  }, [template, source])
 
   React.useEffect(() => {
     // Keep input row IDs aligned with the inputs array length.
@@ -253,12 +545,15 @@ export function TemplateDesigner({
     varKeyOrderRef.current = kept
   }, [template.variables])
 
-  const pushHistory = React.useCallback((prev: DocumentTemplateV1) => {
-    const hist = historyRef.current
-    hist.past.push(prev)
-    if (hist.past.length > 100) hist.past.shift()
-    hist.future = []
-  }, [])
+  const pushHistory = React.useCallback(
+    (prev: DocumentTemplateV1) => {
+      const hist = historyRef.current
+      hist.past.push({ template: prev, assets: getSourceAssets() })
+      if (hist.past.length > 100) hist.past.shift()
+      hist.future = []
+    },
+    [getSourceAssets],
+  )
 
   const applyTemplateChange = React.useCallback(
     (next: DocumentTemplateV1) => {
@@ -270,6 +565,15 @@ export function TemplateDesigner({
     [onTemplateChange, pushHistory],
   )
 
+  /** Like `applyTemplateChange`, but also replaces the package's assets (ignored for plain templates). */
+  const applyAssetsChange = React.useCallback(
+    (next: DocumentTemplateV1, assets: Record<string, PackageAssetV1>) => {
+      pushHistory(templateRef.current)
+      onTemplateChange(next, assets)
+    },
+    [onTemplateChange, pushHistory],
+  )
+
   const undo = React.useCallback(() => {
     const hist = historyRef.current
     if (hist.past.length === 0) return
@@ -277,12 +581,12 @@ export function TemplateDesigner({
     setDrag(null)
     setLineEndpointDrag(null)
     setResizeDrag(null)
+    setColumnResizeDrag(null)
 
-    const current = templateRef.current
     const prev = hist.past.pop()!
-    hist.future.push(current)
-    onTemplateChange(prev)
-  }, [onTemplateChange])
+    hist.future.push({ template: templateRef.current, assets: getSourceAssets() })
+    onTemplateChange(prev.template, prev.assets)
+  }, [getSourceAssets, onTemplateChange])
 
   const redo = React.useCallback(() => {
     const hist = historyRef.current
@@ -291,20 +595,47 @@ export function TemplateDesigner({
     setDrag(null)
     setLineEndpointDrag(null)
     setResizeDrag(null)
+    setColumnResizeDrag(null)
 
-    const current = templateRef.current
     const next = hist.future.pop()!
-    hist.past.push(current)
-    onTemplateChange(next)
-  }, [onTemplateChange])
+    hist.past.push({ template: templateRef.current, assets: getSourceAssets() })
+    onTemplateChange(next.template, next.assets)
+  }, [getSourceAssets, onTemplateChange])
+
+  const selected = (selectedId ? findElement(template, selectedId) : undefined) ?? null
+  const selectedColumnKeys = selected?.type === 'table' ? columnReactKeys(selected.columns) : []
+
+  const pages = React.useMemo(() => getTemplatePages(template), [template])
+  const activePage = pages[Math.min(activePageIndex, pages.length - 1)]!
+  const activeBandArea = activeBand ? activePage[activeBand] : undefined
+  const activeSurface = React.useMemo<EditSurface>(
+    () => ({ pageIndex: activePage.index, band: activeBandArea ? activeBand : null }),
+    [activeBand, activeBandArea, activePage.index],
+  )
+  const surfaceElements = activeBandArea ? activeBandArea.elements : activePage.elements
+  // Band elements are edited in band coordinates; guides are drawn on the page, so they get shifted by this.
+  const surfaceOriginPt = activeBandArea
+    ? { xPt: activeBandArea.rect.xPt, yPt: activeBandArea.rect.yPt }
+    : { xPt: 0, yPt: 0 }
+  const surfaceSizePt = activeBandArea
+    ? { wPt: activeBandArea.rect.wPt, hPt: activeBandArea.rect.hPt }
+    : { wPt: activePage.wPt, hPt: activePage.hPt }
 
-  const selected = template.elements.find((e) => e.id === selectedId) ?? null
+  React.useEffect(() => {
+    // Follow the selection onto its page/band (e.g. when clicking an element on another page).
+    if (!selectedId) return
+    const latest = templateRef.current
+    if (!findElement(latest, selectedId)) return
+    const surface = getElementSurface(latest, selectedId)
+    setActiveBand(surface.band)
+    if (!surface.band) setActivePageIndex(surface.pageIndex)
+  }, [selectedId])
 
   // Elements list is rendered top-most first.
   // Higher z means visually on top and should win click selection when overlapping.
   const elementsByZ = React.useMemo(() => {
-    return [...template.elements].sort((a, b) => (b.rect.z ?? 0) - (a.rect.z ?? 0))
-  }, [template.elements])
+    return [...surfaceElements].sort((a, b) => (b.rect.z ?? 0) - (a.rect.z ?? 0))
+  }, [surfaceElements])
 
   const pageSizePt = React.useMemo(
     () => getPageSizePt(template.page.size, template.page.orientation, template.page.customSizePt),
@@ -314,7 +645,8 @@ export function TemplateDesigner({
   const applyZOrder = React.useCallback(
     (orderedIds: string[]) => {
       const latest = templateRef.current
-      const byId = new Map(latest.elements.map((e) => [e.id, e] as const))
+      const surfaceEls = getSurfaceElements(latest, activeSurface)
+      const byId = new Map(surfaceEls.map((e) => [e.id, e] as const))
       const kept: TemplateV1Element[] = []
 
       for (const id of orderedIds) {
@@ -323,7 +655,7 @@ export function TemplateDesigner({
       }
 
       // Keep any elements not present (shouldn't happen) appended at the back.
-      for (const el of latest.elements) {
+      for (const el of surfaceEls) {
         if (!orderedIds.includes(el.id)) kept.push(el)
       }
 
@@ -334,9 +666,9 @@ export function TemplateDesigner({
         return { ...el, rect: { ...el.rect, z } }
       })
 
-      applyTemplateChange({ ...latest, elements: nextElements })
+      applyTemplateChange(setSurfaceElements(latest, activeSurface, nextElements))
     },
-    [applyTemplateChange],
+    [activeSurface, applyTemplateChange],
   )
 
   const moveInZOrder = React.useCallback(
@@ -355,9 +687,47 @@ export function TemplateDesigner({
     [applyZOrder, elementsByZ],
   )
 
-  const { ctx, errors } = React.useMemo(
-    () => buildEvalContext(template, effectiveSampleInputs),
-    [template, effectiveSampleInputs],
+  // Keyed on the fields buildEvalContext reads, so moving or resizing elements doesn't re-evaluate the variables.
+  const { ctx } = React.useMemo(
+    () =>
+      buildEvalContext(
+        {
+          constants: template.constants,
+          variables: template.variables,
+          locale: template.locale,
+          timeZone: template.timeZone,
+        },
+        effectiveSampleInputs,
+        functions,
+      ),
+    [template.constants, template.variables, template.locale, template.timeZone, effectiveSampleInputs, functions],
+  )
+
+  // Checking every expression is as costly as a render, so it trails behind rapid edits such as drags.
+  const deferredTemplate = React.useDeferredValue(template)
+  const expressionErrors = React.useMemo(
+    () => evaluateTemplate(deferredTemplate, effectiveSampleInputs, { functions }).errors,
+    [deferredTemplate, effectiveSampleInputs, functions],
+  )
+  const fieldErrors = React.useCallback(
+    (elementId: string, field: string) =>
+      expressionErrors.filter((e) => e.source.elementId === elementId && e.source.field === field),
+    [expressionErrors],
+  )
+
+  // Arrays among the sample inputs, constants and variables, offered as table rows.
+  const arraySources = React.useMemo(() => {
+    const out: Array<{ expr: string; rows: unknown[] }> = []
+    for (const scope of ['inputs', 'constants', 'vars'] as const) {
+      for (const [key, value] of Object.entries(ctx[scope])) {
+        if (Array.isArray(value)) out.push({ expr: memberExpr(scope, key), rows: value })
+      }
+    }
+    return out
+  }, [ctx])
+  const selectedTableRows = React.useMemo(
+    () => (selected?.type === 'table' ? evalTableRows(selected, ctx) : []),
+    [selected, ctx],
   )
 
   const alignmentGuidesPt = React.useMemo(() => {
@@ -379,7 +749,7 @@ export function TemplateDesigner({
     const selXs = [selLeft, selCenterX, selRight]
     const selYs = [selTop, selCenterY, selBottom]
 
-    for (const other of template.elements) {
+    for (const other of surfaceElements) {
       if (other.id === selected.id) continue
 
       const oLeft = other.rect.xPt
@@ -405,7 +775,7 @@ export function TemplateDesigner({
     }
 
     return { xPts: [...xPts].sort((a, b) => a - b), yPts: [...yPts].sort((a, b) => a - b) }
-  }, [drag, resizeDrag, selected, template.elements])
+  }, [drag, resizeDrag, selected, surfaceElements])
 
   const spacingGuidesPt = React.useMemo((): SpacingGuideLinePt[] => {
     if (!drag && !showNudgeGuides) return []
@@ -427,7 +797,7 @@ export function TemplateDesigner({
     const alignedY: Array<{ el: TemplateV1Element; kind: 'top' | 'center' | 'bottom' }> = []
     const alignedX: Array<{ el: TemplateV1Element; kind: 'left' | 'center' | 'right' }> = []
 
-    for (const other of template.elements) {
+    for (const other of surfaceElements) {
       if (other.id === selected.id) continue
 
       const oLeft = other.rect.xPt
@@ -539,7 +909,21 @@ export function TemplateDesigner({
     }
 
     return guides
-  }, [drag, selected, showNudgeGuides, template.elements])
+  }, [drag, selected, showNudgeGuides, surfaceElements])
+
+  const previewGuides = React.useMemo(() => {
+    const { xPt: ox, yPt: oy } = surfaceOriginPt
+    return {
+      alignment: { xPts: alignmentGuidesPt.xPts.map((x) => x + ox), yPts: alignmentGuidesPt.yPts.map((y) => y + oy) },
+      spacing: spacingGuidesPt.map((l) => ({
+        ...l,
+        x1Pt: l.x1Pt + ox,
+        y1Pt: l.y1Pt + oy,
+        x2Pt: l.x2Pt + ox,
+        y2Pt: l.y2Pt + oy,
+      })),
+    }
+  }, [alignmentGuidesPt, spacingGuidesPt, surfaceOriginPt.xPt, surfaceOriginPt.yPt])
 
   const getLineEndpointsPt = React.useCallback((el: LineElementV1) => {
     const hasExplicit =
@@ -616,17 +1000,14 @@ export function TemplateDesigner({
     [getLineEndpointsPt, normalizeLineFromEndpoints],
   )
 
-  const { wPt: pageWPt, hPt: pageHPt } = React.useMemo(
-    () => getPageSizePt(template.page.size, template.page.orientation, template.page.customSizePt),
-    [template.page.size, template.page.orientation, template.page.customSizePt],
-  )
+  const { wPt: pageWPt, hPt: pageHPt } = surfaceSizePt
 
   const nudgeSelectedBy = React.useCallback(
     (dxPt: number, dyPt: number) => {
       if (!selected) return
 
       const latest = templateRef.current
-      const el = latest.elements.find((e) => e.id === selected.id)
+      const el = findElement(latest, selected.id)
       if (!el) return
 
       if (el.type === 'line') {
@@ -753,7 +1134,7 @@ export function TemplateDesigner({
 
     const onMove = (ev: PointerEvent) => {
       const current = templateRef.current
-      const el = current.elements.find((e) => e.id === drag.id)
+      const el = findElement(current, drag.id)
       if (!el) return
 
       const dxPt = pxToPt(ev.clientX - drag.startClientX)
@@ -770,7 +1151,7 @@ export function TemplateDesigner({
         })
         const clamped = clampLineToPage(moved, drag.pageWPt, drag.pageHPt)
 
-        const others = current.elements
+        const others = getSiblingElements(current, drag.id)
           .filter((o) => o.id !== el.id)
           .map((o) => ({ xPt: o.rect.xPt, yPt: o.rect.yPt, wPt: o.rect.wPt, hPt: o.rect.hPt }))
         const snap = getSnapDeltaForRect(clamped.rect, others)
@@ -793,7 +1174,7 @@ export function TemplateDesigner({
         let yPt = clampNumber(drag.baseYPt + dyPt, 0, maxY)
 
         const candidateRect = { xPt, yPt, wPt: el.rect.wPt, hPt: el.rect.hPt }
-        const others = current.elements
+        const others = getSiblingElements(current, drag.id)
           .filter((o) => o.id !== el.id)
           .map((o) => ({ xPt: o.rect.xPt, yPt: o.rect.yPt, wPt: o.rect.wPt, hPt: o.rect.hPt }))
         const snap = getSnapDeltaForRect(candidateRect, others)
@@ -845,7 +1226,7 @@ export function TemplateDesigner({
 
     const onMove = (ev: PointerEvent) => {
       const current = templateRef.current
-      const el = current.elements.find((e) => e.id === lineEndpointDrag.id)
+      const el = findElement(current, lineEndpointDrag.id)
       if (!el || el.type !== 'line') return
 
       const dxPt = pxToPt(ev.clientX - lineEndpointDrag.startClientX)
@@ -926,8 +1307,8 @@ export function TemplateDesigner({
 
     const onMove = (ev: PointerEvent) => {
       const current = templateRef.current
-      const el = current.elements.find((e) => e.id === resizeDrag.id)
-      if (!el || (el.type !== 'text' && el.type !== 'image' && el.type !== 'qr')) return
+      const el = findElement(current, resizeDrag.id)
+      if (!el || el.type === 'line') return
 
       const dxPt = pxToPt(ev.clientX - resizeDrag.startClientX)
       const dyPt = pxToPt(ev.clientY - resizeDrag.startClientY)
@@ -975,7 +1356,7 @@ export function TemplateDesigner({
       // Snap-to-alignment (edges only) while resizing.
       const othersX: number[] = []
       const othersY: number[] = []
-      for (const o of current.elements) {
+      for (const o of getSiblingElements(current, resizeDrag.id)) {
         if (o.id === el.id) continue
         othersX.push(o.rect.xPt, o.rect.xPt + o.rect.wPt / 2, o.rect.xPt + o.rect.wPt)
         othersY.push(o.rect.yPt, o.rect.yPt + o.rect.hPt / 2, o.rect.yPt + o.rect.hPt)
@@ -1070,6 +1451,71 @@ export function TemplateDesigner({
     }
   }, [onTemplateChange, pushHistory, resizeDrag])
 
+  React.useEffect(() => {
+    if (!columnResizeDrag) return
+
+    const minPct = 3
+
+    const onMove = (ev: PointerEvent) => {
+      const el = findElement(templateRef.current, columnResizeDrag.id)
+      if (!el || el.type !== 'table' || el.columns.length !== columnResizeDrag.baseWidthsPct.length) return
+
+      // Moving the border trades width between its two columns; the others keep theirs.
+      const { colIdx, baseWidthsPct } = columnResizeDrag
+      const pairPct = baseWidthsPct[colIdx]! + baseWidthsPct[colIdx + 1]!
+      const dPct = (pxToPt(ev.clientX - columnResizeDrag.startClientX) / columnResizeDrag.tableWPt) * 100
+      const leftPct = clampNumber(baseWidthsPct[colIdx]! + dPct, minPct, Math.max(minPct, pairPct - minPct))
+      const widthsPct = baseWidthsPct.map((w, i) => {
+        if (i === colIdx) return leftPct
+        if (i === colIdx + 1) return pairPct - leftPct
+        return w
+      })
+
+      const next: TemplateV1Element = {
+        ...el,
+        columns: el.columns.map((c, i) => ({ ...c, widthPct: Math.round(widthsPct[i]! * 10) / 10 })),
+      }
+      if (dPct !== 0) resizeHistoryRef.current.didMove = true
+
+      pendingElRef.current = next
+      if (rafRef.current != null) return
+      rafRef.current = window.requestAnimationFrame(() => {
+        rafRef.current = null
+        const pending = pendingElRef.current
+        if (!pending) return
+        onTemplateChange(updateElement(templateRef.current, pending))
+      })
+    }
+
+    const onUp = () => {
+      const { base, didMove } = resizeHistoryRef.current
+      if (base && didMove) {
+        pushHistory(base)
+      }
+      resizeHistoryRef.current.base = null
+      resizeHistoryRef.current.didMove = false
+      setColumnResizeDrag(null)
+    }
+
+    window.addEventListener('pointermove', onMove)
+    window.addEventListener('pointerup', onUp)
+    window.addEventListener('pointercancel', onUp)
+    return () => {
+      window.removeEventListener('pointermove', onMove)
+      window.removeEventListener('pointerup', onUp)
+      window.removeEventListener('pointercancel', onUp)
+    }
+  }, [columnResizeDrag, onTemplateChange, pushHistory])
+
+  const placeOnSurface = (el: TemplateV1Element): TemplateV1Element => {
+    // New elements use page coordinates; bands are much smaller, so start at the band's corner instead.
+    if (!activeSurface.band) return el
+    const wPt = Math.min(el.rect.wPt, surfaceSizePt.wPt)
+    const hPt = Math.min(el.rect.hPt, surfaceSizePt.hPt)
+    if (el.type === 'line') return normalizeLineFromEndpoints(el, { x1Pt: 0, y1Pt: 0, x2Pt: wPt, y2Pt: 0 })
+    return { ...el, rect: { ...el.rect, xPt: 0, yPt: 0, wPt, hPt } }
+  }
+
   const addText = () => {
     const el: TemplateV1Element = {
       id: newId('txt'),
@@ -1079,7 +1525,7 @@ export function TemplateDesigner({
       style: { fontSizePt: 12 },
     }
     const latest = templateRef.current
-    const next = { ...latest, elements: [...latest.elements, el] }
+    const next = addElementToSurface(latest, activeSurface, placeOnSurface(el))
     applyTemplateChange(next)
     setSelectedId(el.id)
     focusPreview()
@@ -1090,11 +1536,12 @@ export function TemplateDesigner({
       id: newId('img'),
       type: 'image',
       rect: { xPt: 36, yPt: 330, wPt: 120, hPt: 50, z: 1 },
-      imageRef: 'logo',
+      // Reuse an existing image; new ones are added from the Assets tab.
+      imageRef: assetRefs[0] ?? 'logo',
       fit: 'contain',
     }
     const latest = templateRef.current
-    const next = { ...latest, elements: [...latest.elements, el] }
+    const next = addElementToSurface(latest, activeSurface, placeOnSurface(el))
     applyTemplateChange(next)
     setSelectedId(el.id)
     focusPreview()
@@ -1113,7 +1560,7 @@ export function TemplateDesigner({
       color: '#111827',
     }
     const latest = templateRef.current
-    const next = { ...latest, elements: [...latest.elements, el] }
+    const next = addElementToSurface(latest, activeSurface, placeOnSurface(el))
     applyTemplateChange(next)
     setSelectedId(el.id)
     focusPreview()
@@ -1131,17 +1578,102 @@ export function TemplateDesigner({
       bgColor: '#ffffff',
     } as any
     const latest = templateRef.current
-    const next = { ...latest, elements: [...latest.elements, el] }
+    const next = addElementToSurface(latest, activeSurface, placeOnSurface(el))
     applyTemplateChange(next)
     setSelectedId(el.id)
     focusPreview()
   }
 
+  const addTable = () => {
+    const source = arraySources[0]
+    const el: TemplateV1Element = {
+      id: newId('tbl'),
+      type: 'table',
+      rect: { xPt: 36, yPt: 420, wPt: 400, hPt: 160, z: 1 },
+      rowsExpr: source?.expr ?? '[]',
+      columns: columnsFromSampleRow(source?.rows[0]),
+      headerRow: true,
+      border: true,
+      fontSizePt: 10,
+    }
+    const latest = templateRef.current
+    const next = addElementToSurface(latest, activeSurface, placeOnSurface(el))
+    applyTemplateChange(next)
+    setSelectedId(el.id)
+    focusPreview()
+  }
+
+  const updateTable = (id: string, update: (el: TableElementV1) => TableElementV1) => {
+    const latest = templateRef.current
+    const el = findElement(latest, id)
+    if (!el || el.type !== 'table') return
+    applyTemplateChange(updateElement(latest, update(el)))
+  }
+
+  const updateTableColumn = (id: string, colIdx: number, patch: Partial<TableColumnV1>) => {
+    updateTable(id, (el) => ({ ...el, columns: el.columns.map((c, i) => (i === colIdx ? { ...c, ...patch } : c)) }))
+  }
+
+  const addTableColumn = (id: string) => {
+    updateTable(id, (el) => {
+      const key = uniqKey('col', new Set(el.columns.map((c) => c.key)))
+      // When every column has a width there's nothing left for the new one, so make room proportionally.
+      const allFixed = el.columns.length > 0 && el.columns.every((c) => c.widthPct)
+      const columns = allFixed ? scaleWidthsPct(el.columns, el.columns.length / (el.columns.length + 1)) : el.columns
+      return { ...el, columns: [...columns, { key, header: key, cellTpl: '{{ row }}' }] }
+    })
+  }
+
+  const removeTableColumn = (id: string, colIdx: number) => {
+    updateTable(id, (el) => {
+      const columns = el.columns.filter((_, i) => i !== colIdx)
+      // Fixed widths that no longer fill the table are stretched back to 100%.
+      const totalPct = columns.reduce((sum, c) => sum + (c.widthPct ?? 0), 0)
+      const allFixed = columns.length > 0 && columns.every((c) => c.widthPct)
+      return { ...el, columns: allFixed && totalPct > 0 ? scaleWidthsPct(columns, 100 / totalPct) : columns }
+    })
+  }
+
+  const moveTableColumn = (id: string, colIdx: number, delta: -1 | 1) => {
+    updateTable(id, (el) => {
+      const target = colIdx + delta
+      if (target < 0 || target >= el.columns.length) return el
+      const columns = [...el.columns]
+      ;[columns[colIdx], columns[target]] = [columns[target]!, columns[colIdx]!]
+      return { ...el, columns }
+    })
+  }
+
+  const updateTableBorder = (id: string, edge: keyof TableBordersV1, patch: TableBorderV1) => {
+    updateTable(id, (el) => ({ ...el, borders: { ...el.borders, [edge]: { ...el.borders?.[edge], ...patch } } }))
+  }
+
+  const addTableRowStyle = (id: string) => {
+    updateTable(id, (el) => ({
+      ...el,
+      rowStyles: [...(el.rowStyles ?? []), { when: 'row.highlight', fontWeight: 'bold' }],
+    }))
+  }
+
+  const updateTableRowStyle = (id: string, styleIdx: number, patch: Partial<TableRowStyleV1>) => {
+    updateTable(id, (el) => ({
+      ...el,
+      rowStyles: (el.rowStyles ?? []).map((rs, i) => (i === styleIdx ? { ...rs, ...patch } : rs)),
+    }))
+  }
+
+  const removeTableRowStyle = (id: string, styleIdx: number) => {
+    updateTable(id, (el) => {
+      const rowStyles = (el.rowStyles ?? []).filter((_, i) => i !== styleIdx)
+      return { ...el, rowStyles: rowStyles.length > 0 ? rowStyles : undefined }
+    })
+  }
+
   const duplicateElement = (el: TemplateV1Element) => {
     const dxPt = 12
     const dyPt = 12
     const latest = templateRef.current
-    const { wPt, hPt } = getPageSizePt(latest.page.size, latest.page.orientation, latest.page.customSizePt)
+    const { wPt, hPt } = getElementSurfaceSizePt(latest, el.id)
 
     const cloneBase: TemplateV1Element = {
       ...(el as any),
@@ -1163,7 +1695,7 @@ export function TemplateDesigner({
           })()
         : cloneBase
 
-    applyTemplateChange({ ...latest, elements: [...latest.elements, clone] })
+    applyTemplateChange(addElementToSurface(latest, getElementSurface(latest, el.id), clone))
     setSelectedId(clone.id)
     focusPreview()
   }
@@ -1175,12 +1707,18 @@ export function TemplateDesigner({
 
   const duplicateById = (id: string) => {
     const latest = templateRef.current
-    const el = latest.elements.find((x) => x.id === id)
+    const el = findElement(latest, id)
     if (!el) return
     duplicateElement(el)
   }
 
   const openPdf = async () => {
+    // The vector backend draws from the template, so there are no overlays to hide.
+    if (pdfBackend === 'vector') {
+      await openPdfPreview(templateRef.current, effectiveSampleInputs, { backend: 'vector', assetResolver, functions })
+      return
+    }
+
     const prevSelectedId = selectedId
     try {
       setIsPdfPreviewing(true)
@@ -1195,7 +1733,7 @@ export function TemplateDesigner({
 
       const root = previewWrapRef.current?.querySelector('[data-doc-root]') as HTMLElement | null
       if (!root) return
-      await openPdfPreviewFromElement(root, templateRef.current)
+      await openPdfPreview(templateRef.current, effectiveSampleInputs, { backend: 'raster', element: root })
     } finally {
       setIsPdfPreviewing(false)
       setSelectedId(prevSelectedId)
@@ -1211,10 +1749,10 @@ export function TemplateDesigner({
     focusPreview()
 
     const latest = templateRef.current
-    const el = latest.elements.find((x) => x.id === id)
+    const el = findElement(latest, id)
     if (!el) return
 
-    const { wPt, hPt } = getPageSizePt(latest.page.size, latest.page.orientation, latest.page.customSizePt)
+    const { wPt, hPt } = getElementSurfaceSizePt(latest, id)
 
     dragMoveHistoryRef.current.base = latest
     dragMoveHistoryRef.current.didMove = false
@@ -1402,11 +1940,197 @@ export function TemplateDesigner({
     applyTemplateChange({ ...latest, variables: vars })
   }
 
-  type TabKey = 'Template' | 'Inspector' | 'Inputs' | 'Constants' | 'Variables' | 'Test inputs'
-  const tabs: TabKey[] = ['Template', 'Inspector', 'Inputs', 'Constants', 'Variables', 'Test inputs']
+  const selectPage = (pageIndex: number) => {
+    setActivePageIndex(pageIndex)
+    setActiveBand(null)
+    if (selectedId && findElementPageIndex(templateRef.current, selectedId) !== pageIndex) setSelectedId(null)
+  }
+
+  const selectBand = (kind: PageBandKind) => {
+    setActiveBand(kind)
+    if (selectedId && findElementBand(templateRef.current, selectedId) !== kind) setSelectedId(null)
+  }
+
+  const setBandHeight = (kind: PageBandKind, heightPt: number) => {
+    const latest = templateRef.current
+    const band = latest.page[kind] ?? { heightPt: 0, elements: [] }
+    // Height 0 hides the band but keeps its elements.
+    const next = Number.isFinite(heightPt) ? Math.max(0, heightPt) : 0
+    applyTemplateChange({ ...latest, page: { ...latest.page, [kind]: { ...band, heightPt: next } } })
+  }
+
+  const addPage = () => {
+    const latest = templateRef.current
+    const page: DocumentPageV1 = { id: newId('page'), elements: [] }
+    applyTemplateChange({ ...latest, pages: [...(latest.pages ?? []), page] })
+    setActivePageIndex(1 + (latest.pages?.length ?? 0))
+    setSelectedId(null)
+  }
+
+  const removePage = (pageIndex: number) => {
+    // The first page is the template's own `elements` and cannot be removed.
+    if (pageIndex <= 0) return
+    const latest = templateRef.current
+    const next: DocumentTemplateV1 = { ...latest, pages: (latest.pages ?? []).filter((_, i) => i !== pageIndex - 1) }
+    if (next.pages!.length === 0) delete next.pages
+    applyTemplateChange(next)
+    setActivePageIndex(pageIndex - 1)
+    if (selectedId && findElementPageIndex(latest, selectedId) === pageIndex) setSelectedId(null)
+  }
+
+  const updatePageSetup = (pageIndex: number, patch: Partial<Pick<DocumentPageV1, 'size' | 'orientation'>>) => {
+    if (pageIndex <= 0) return
+    const latest = templateRef.current
+    applyTemplateChange({
+      ...latest,
+      pages: (latest.pages ?? []).map((p, i) => (i === pageIndex - 1 ? { ...p, ...patch } : p)),
+    })
+  }
+
+  // Assets: every referenced image plus unused images embedded in the package.
+  const isPackage = isTemplatePackage(source)
+  const assetRefs = React.useMemo(
+    () => [...new Set([...getImageRefs(template), ...Object.keys(packageAssets ?? {})])],
+    [template, packageAssets],
+  )
+  const assetUsage = React.useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const el of getAllElements(template)) {
+      if (el.type === 'image') counts.set(el.imageRef, (counts.get(el.imageRef) ?? 0) + 1)
+    }
+    return counts
+  }, [template])
+  const assetRefsKey = assetRefs.join('\n')
+  const [assetStatus, setAssetStatus] = React.useState<Record<string, { url: string; ok: boolean }>>({})
+  const [assetDropActive, setAssetDropActive] = React.useState(false)
+  const [assetError, setAssetError] = React.useState<string | null>(null)
+  const assetRowIdsRef = React.useRef<Map<string, string>>(new Map())
+
+  const getAssetRowId = React.useCallback((ref: string) => {
+    const map = assetRowIdsRef.current
+    const existing = map.get(ref)
+    if (existing) return existing
+    const id = newId('assetRow')
+    map.set(ref, id)
+    return id
+  }, [])
+
+  React.useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      const refs = assetRefsKey ? assetRefsKey.split('\n') : []
+      const entries = await Promise.all(
+        refs.map(async (ref) => {
+          try {
+            const url = await resolveImage(ref, assetResolver)
+            return [ref, { url, ok: !!url && (await loadsAsImage(url)) }] as const
+          } catch {
+            return [ref, { url: '', ok: false }] as const
+          }
+        }),
+      )
+      if (!cancelled) setAssetStatus(Object.fromEntries(entries))
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [assetRefsKey, assetResolver])
+
+  const unresolvedAssetCount = assetRefs.filter((ref) => assetStatus[ref]?.ok === false).length
+
+  // Stores images with the host callback, or as data URLs. `replaceRef` keeps an embedded asset's ref.
+  const storeImageFiles = async (files: File[], replaceRef?: string) => {
+    const assets = { ...(getSourceAssets() ?? {}) }
+    const refs: string[] = []
+    for (const file of files) {
+      if (onUploadAsset) {
+        refs.push(await onUploadAsset(file))
+        continue
+      }
+      const dataUrl = await readFileAsDataUrl(file)
+      if (!isPackage) {
+        refs.push(dataUrl)
+        continue
+      }
+      const taken = new Set([...Object.keys(assets), ...getImageRefs(templateRef.current)])
+      const ref = replaceRef ?? uniqKey(file.name.replace(/\.[^.]+$/, '') || 'image', taken)
+      assets[ref] = { dataUrl, mimeType: file.type || undefined }
+      refs.push(ref)
+    }
+    return { refs, assets }
+  }
+
+  const uploadImages = async (files: File[]) => {
+    const images = files.filter((f) => f.type.startsWith('image/'))
+    if (images.length === 0) return
+    setAssetError(null)
+    try {
+      const { refs, assets } = await storeImageFiles(images)
+      // Place each upload on the active page so it is referenced (and kept when packing) right away.
+      let next = templateRef.current
+      let lastId: string | null = null
+      refs.forEach((ref, i) => {
+        const el: TemplateV1Element = {
+          id: newId('img'),
+          type: 'image',
+          rect: { xPt: 36 + i * 12, yPt: 330 + i * 12, wPt: 120, hPt: 50, z: 1 },
+          imageRef: ref,
+          fit: 'contain',
+        }
+        next = addElementToSurface(next, activeSurface, placeOnSurface(el))
+        lastId = el.id
+      })
+      applyAssetsChange(next, assets)
+      setSelectedId(lastId)
+    } catch (err) {
+      setAssetError(`Upload failed: ${(err as Error).message}`)
+    }
+  }
+
+  const replaceAsset = async (ref: string, file: File) => {
+    setAssetError(null)
+    try {
+      const { refs, assets } = await storeImageFiles([file], ref)
+      const nextRef = refs[0]!
+      if (nextRef !== ref) delete assets[ref]
+      applyAssetsChange(renameImageRef(templateRef.current, ref, nextRef), assets)
+    } catch (err) {
+      setAssetError(`Replace failed: ${(err as Error).message}`)
+    }
+  }
+
+  const renameAsset = (prevRef: string, nextRef: string) => {
+    // Refusing to merge into an existing ref keeps two different images from collapsing into one.
+    if (!nextRef || nextRef === prevRef || assetRefs.includes(nextRef)) return
+    const assets = renameKey(getSourceAssets() ?? {}, prevRef, nextRef)
+
+    const rowId = assetRowIdsRef.current.get(prevRef)
+    if (rowId) {
+      assetRowIdsRef.current.delete(prevRef)
+      assetRowIdsRef.current.set(nextRef, rowId)
+    }
+
+    applyAssetsChange(renameImageRef(templateRef.current, prevRef, nextRef), assets)
+  }
+
+  const removeAsset = (ref: string) => {
+    const assets = { ...(getSourceAssets() ?? {}) }
+    delete assets[ref]
+    applyAssetsChange(templateRef.current, assets)
+  }
+
+  type TabKey = 'Template' | 'Inspector' | 'Assets' | 'Inputs' | 'Constants' | 'Variables' | 'Test inputs'
+  const tabs: TabKey[] = ['Template', 'Inspector', 'Assets', 'Inputs', 'Constants', 'Variables', 'Test inputs']
   const [activeTab, setActiveTab] = React.useState<TabKey>('Inspector')
   const [showOpsModal, setShowOpsModal] = React.useState(false)
-  const functionNames = React.useMemo(() => Object.keys(defaultFunctions()).sort(), [])
+  const functionNames = React.useMemo(
+    () => Object.keys({ ...defaultFunctions(), ...functions }).sort(),
+    [functions],
+  )
+  const docs = React.useMemo(() => ({ ...FUNCTION_DOCS, ...functionDocs }), [functionDocs])
 
   React.useEffect(() => {
     if (!showOpsModal) return
@@ -1433,7 +2157,7 @@ export function TemplateDesigner({
           <button onClick={openPdf}>Preview PDF</button>
           <button
             onClick={() => {
-              onSave(templateRef.current)
+              onSave(wrapTemplate(templateRef.current))
             }}
           >
             Save
@@ -1462,7 +2186,7 @@ export function TemplateDesigner({
                 lineHeight: 1.2,
               }}
             >
-              {t}
+              {t === 'Assets' && unresolvedAssetCount > 0 ? `${t} ⚠ ${unresolvedAssetCount}` : t}
             </button>
           ))}
         </div>
@@ -1491,6 +2215,31 @@ export function TemplateDesigner({
                 />
               </label>
 
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8 }}>
+                <label style={{ display: 'grid', gap: 4 }}>
+                  <div style={{ fontSize: 12, fontWeight: 600 }}>Locale</div>
+                  <input
+                    value={template.locale ?? ''}
+                    placeholder="en-US"
+                    onChange={(e) => {
+                      const latest = templateRef.current
+                      applyTemplateChange({ ...latest, locale: e.target.value || undefined })
+                    }}
+                  />
+                </label>
+                <label style={{ display: 'grid', gap: 4 }}>
+                  <div style={{ fontSize: 12, fontWeight: 600 }}>Time zone</div>
+                  <input
+                    value={template.timeZone ?? ''}
+                    placeholder="UTC"
+                    onChange={(e) => {
+                      const latest = templateRef.current
+                      applyTemplateChange({ ...latest, timeZone: e.target.value || undefined })
+                    }}
+                  />
+                </label>
+              </div>
+
               <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8 }}>
                 <label style={{ display: 'grid', gap: 4 }}>
                   <div style={{ fontSize: 12, fontWeight: 600 }}>Size</div>
@@ -1606,21 +2355,152 @@ export function TemplateDesigner({
                   </label>
                 </div>
               )}
+
+              <div style={{ display: 'grid', gap: 8 }}>
+                <div style={{ fontSize: 12, fontWeight: 700 }}>Header / footer</div>
+                <div style={{ fontSize: 12, opacity: 0.75 }}>
+                  Repeated on every page inside the margins. Edit their elements from the Inspector. Height 0 hides a
+                  band.
+                </div>
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8 }}>
+                  {(['header', 'footer'] as const).map((kind) => (
+                    <label key={kind} style={{ display: 'grid', gap: 4 }}>
+                      <div style={{ fontSize: 12, fontWeight: 600 }}>
+                        {kind === 'header' ? 'Header' : 'Footer'} height (pt)
+                      </div>
+                      <input
+                        type="number"
+                        min={0}
+                        step={1}
+                        value={template.page[kind]?.heightPt ?? 0}
+                        onChange={(e) => setBandHeight(kind, Number(e.target.value))}
+                      />
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div style={{ display: 'grid', gap: 8 }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                  <div style={{ fontSize: 12, fontWeight: 700, flex: 1 }}>Pages</div>
+                  <button onClick={addPage}>+ Page</button>
+                </div>
+                {pages.map((p) => (
+                  <div
+                    key={p.id}
+                    style={{
+                      border: '1px solid #E5E7EB',
+                      borderRadius: 8,
+                      padding: 10,
+                      background: p.index === activePage.index ? '#EEF2FF' : '#ffffff',
+                      display: 'grid',
+                      gap: 8,
+                    }}
+                  >
+                    <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                      <button
+                        type="button"
+                        onClick={() => selectPage(p.index)}
+                        style={{
+                          flex: 1,
+                          textAlign: 'left',
+                          padding: 0,
+                          border: 0,
+                          background: 'transparent',
+                          color: 'inherit',
+                        }}
+                      >
+                        <div style={{ fontWeight: 700, fontSize: 12 }}>Page {p.index + 1}</div>
+                        <div style={{ fontSize: 12, opacity: 0.75 }}>
+                          {p.page.size} · {p.page.orientation} · {p.elements.length} elements
+                        </div>
+                      </button>
+                      {p.index > 0 && <button onClick={() => removePage(p.index)}>Remove</button>}
+                    </div>
+
+                    {p.index > 0 && (
+                      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8 }}>
+                        <label style={{ display: 'grid', gap: 4 }}>
+                          <div style={{ fontSize: 12, fontWeight: 600 }}>Size</div>
+                          <select
+                            value={template.pages?.[p.index - 1]?.size ?? ''}
+                            onChange={(e) =>
+                              updatePageSetup(p.index, { size: (e.target.value || undefined) as PageSize | undefined })
+                            }
+                          >
+                            <option value="">Same as document</option>
+                            <option value="LETTER">LETTER</option>
+                            <option value="LEGAL">LEGAL</option>
+                            <option value="A3">A3</option>
+                            <option value="A4">A4</option>
+                            <option value="A5">A5</option>
+                          </select>
+                        </label>
+                        <label style={{ display: 'grid', gap: 4 }}>
+                          <div style={{ fontSize: 12, fontWeight: 600 }}>Orientation</div>
+                          <select
+                            value={template.pages?.[p.index - 1]?.orientation ?? ''}
+                            onChange={(e) =>
+                              updatePageSetup(p.index, {
+                                orientation: (e.target.value || undefined) as PageOrientation | undefined,
+                              })
+                            }
+                          >
+                            <option value="">Same as document</option>
+                            <option value="portrait">portrait</option>
+                            <option value="landscape">landscape</option>
+                          </select>
+                        </label>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
             </div>
           )}
 
           {activeTab === 'Inspector' && (
             <div style={{ display: 'grid', gap: 10 }}>
+              {(pages.length > 1 || template.page.header || template.page.footer) && (
+                <label style={{ display: 'grid', gap: 4 }}>
+                  <div style={{ fontSize: 12, fontWeight: 600 }}>Editing</div>
+                  <select
+                    value={activeSurface.band ?? String(activeSurface.pageIndex)}
+                    onChange={(e) => {
+                      const v = e.target.value
+                      if (v === 'header' || v === 'footer') selectBand(v)
+                      else selectPage(Number(v))
+                    }}
+                  >
+                    {pages.map((p) => (
+                      <option key={p.id} value={String(p.index)}>
+                        Page {p.index + 1}
+                      </option>
+                    ))}
+                    {activePage.header && <option value="header">Header (every page)</option>}
+                    {activePage.footer && <option value="footer">Footer (every page)</option>}
+                  </select>
+                </label>
+              )}
+
               <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
                 <button onClick={addText}>+ Text</button>
                 <button onClick={addImage}>+ Image</button>
                 <button onClick={addLine}>+ Line</button>
                 <button onClick={addQr}>+ QR</button>
+                <button onClick={addTable}>+ Table</button>
               </div>
 
               <div style={{ display: 'grid', gap: 10 }}>
                 <div>
-                  <div style={{ fontSize: 12, fontWeight: 700, marginBottom: 6 }}>Elements</div>
+                  <div style={{ fontSize: 12, fontWeight: 700, marginBottom: 6 }}>
+                    Elements
+                    {activeSurface.band
+                      ? ` (${activeSurface.band})`
+                      : pages.length > 1
+                        ? ` (page ${activePage.index + 1} of ${pages.length})`
+                        : ''}
+                  </div>
                   <div style={{ display: 'grid', gap: 6, maxHeight: 220, overflow: 'auto', paddingRight: 2 }}>
                     {elementsByZ.map((e) => (
                       <div
@@ -1764,12 +2644,13 @@ export function TemplateDesigner({
                           onChange={(e) =>
                             (() => {
                               const latest = templateRef.current
-                              const el = latest.elements.find((x) => x.id === selected.id)
+                              const el = findElement(latest, selected.id)
                               if (!el) return
                               applyTemplateChange(updateElement(latest, { ...el, visibleIf: e.target.value || undefined } as any))
                             })()
                           }
                         />
+                        <FieldErrors value={selected.visibleIf ?? ''} errors={fieldErrors(selected.id, 'visibleIf')} />
                       </label>
 
                       {selected.type !== 'line' ? (
@@ -1788,7 +2669,7 @@ export function TemplateDesigner({
                                 onChange={(e) =>
                                   (() => {
                                     const latest = templateRef.current
-                                    const el = latest.elements.find((x) => x.id === selected.id)
+                                    const el = findElement(latest, selected.id)
                                     if (!el || el.type === 'line') return
                                     applyTemplateChange(
                                       updateElement(latest, {
@@ -1810,13 +2691,9 @@ export function TemplateDesigner({
                               const pts = getLineEndpointsPt(selected)
                               const apply = (nextPts: { x1Pt: number; y1Pt: number; x2Pt: number; y2Pt: number }) => {
                                 const latest = templateRef.current
-                                const el = latest.elements.find((x) => x.id === selected.id)
+                                const el = findElement(latest, selected.id)
                                 if (!el || el.type !== 'line') return
-                                const { wPt, hPt } = getPageSizePt(
-                                  latest.page.size,
-                                  latest.page.orientation,
-                                  latest.page.customSizePt,
-                                )
+                                const { wPt, hPt } = getElementSurfaceSizePt(latest, el.id)
                                 const next = clampLineToPage(normalizeLineFromEndpoints(el, nextPts), wPt, hPt)
                                 applyTemplateChange(updateElement(latest, next))
                               }
@@ -1871,11 +2748,12 @@ export function TemplateDesigner({
                               value={selected.textTpl}
                               onChange={(e) => {
                                 const latest = templateRef.current
-                                const el = latest.elements.find((x) => x.id === selected.id)
+                                const el = findElement(latest, selected.id)
                                 if (!el || el.type !== 'text') return
                                 applyTemplateChange(updateElement(latest, { ...el, textTpl: e.target.value }))
                               }}
                             />
+                            <FieldErrors value={selected.textTpl} errors={fieldErrors(selected.id, 'textTpl')} />
                           </label>
 
                           <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 10, alignItems: 'end' }}>
@@ -1893,7 +2771,7 @@ export function TemplateDesigner({
                                       const nextFontWeight: TextStyleV1['fontWeight'] = isBold ? 'normal' : 'bold'
                                       const nextStyle: TextStyleV1 = { ...(selected.style ?? {}), fontWeight: nextFontWeight }
                                       const latest = templateRef.current
-                                      const el = latest.elements.find((x) => x.id === selected.id)
+                                      const el = findElement(latest, selected.id)
                                       if (!el || el.type !== 'text') return
                                       applyTemplateChange(updateElement(latest, { ...el, style: nextStyle } as any))
                                     },
@@ -1907,7 +2785,7 @@ export function TemplateDesigner({
                                         selected.style?.fontStyle === 'italic' ? 'normal' : 'italic'
                                       const nextStyle: TextStyleV1 = { ...(selected.style ?? {}), fontStyle: nextFontStyle }
                                       const latest = templateRef.current
-                                      const el = latest.elements.find((x) => x.id === selected.id)
+                                      const el = findElement(latest, selected.id)
                                       if (!el || el.type !== 'text') return
                                       applyTemplateChange(updateElement(latest, { ...el, style: nextStyle } as any))
                                     },
@@ -1924,7 +2802,7 @@ export function TemplateDesigner({
                                         textDecoration: nextTextDecoration,
                                       }
                                       const latest = templateRef.current
-                                      const el = latest.elements.find((x) => x.id === selected.id)
+                                      const el = findElement(latest, selected.id)
                                       if (!el || el.type !== 'text') return
                                       applyTemplateChange(updateElement(latest, { ...el, style: nextStyle } as any))
                                     },
@@ -1963,7 +2841,7 @@ export function TemplateDesigner({
                                   const nextAlign = e.target.value as NonNullable<TextStyleV1['textAlign']>
                                   const nextStyle: TextStyleV1 = { ...(selected.style ?? {}), textAlign: nextAlign }
                                   const latest = templateRef.current
-                                  const el = latest.elements.find((x) => x.id === selected.id)
+                                  const el = findElement(latest, selected.id)
                                   if (!el || el.type !== 'text') return
                                   applyTemplateChange(updateElement(latest, { ...el, style: nextStyle } as any))
                                 }}
@@ -1980,7 +2858,7 @@ export function TemplateDesigner({
                                 value={selected.style?.fontFamily ?? ''}
                                 onChange={(e) => {
                                   const latest = templateRef.current
-                                  const el = latest.elements.find((x) => x.id === selected.id)
+                                  const el = findElement(latest, selected.id)
                                   if (!el || el.type !== 'text') return
 
                                   const raw = e.target.value
@@ -2011,7 +2889,7 @@ export function TemplateDesigner({
                                 value={selected.style?.fontSizePt ?? 12}
                                 onChange={(e) => {
                                   const latest = templateRef.current
-                                  const el = latest.elements.find((x) => x.id === selected.id)
+                                  const el = findElement(latest, selected.id)
                                   if (!el || el.type !== 'text') return
 
                                   const raw = e.target.value
@@ -2032,7 +2910,7 @@ export function TemplateDesigner({
                                 value={selected.style?.color ?? '#111827'}
                                 onChange={(e) => {
                                   const latest = templateRef.current
-                                  const el = latest.elements.find((x) => x.id === selected.id)
+                                  const el = findElement(latest, selected.id)
                                   if (!el || el.type !== 'text') return
 
                                   const raw = e.target.value
@@ -2053,7 +2931,7 @@ export function TemplateDesigner({
                                 checked={(selected.style?.borderWidthPt ?? 0) > 0}
                                 onChange={(e) => {
                                   const latest = templateRef.current
-                                  const el = latest.elements.find((x) => x.id === selected.id)
+                                  const el = findElement(latest, selected.id)
                                   if (!el || el.type !== 'text') return
 
                                   const cur = el.style ?? {}
@@ -2091,7 +2969,7 @@ export function TemplateDesigner({
                                       value={selected.style?.borderWidthPt ?? 0}
                                       onChange={(e) => {
                                         const latest = templateRef.current
-                                        const el = latest.elements.find((x) => x.id === selected.id)
+                                        const el = findElement(latest, selected.id)
                                         if (!el || el.type !== 'text') return
                                         const nextWidth = Number(e.target.value)
                                         const cur = el.style ?? {}
@@ -2110,7 +2988,7 @@ export function TemplateDesigner({
                                       value={selected.style?.borderColor ?? '#111827'}
                                       onChange={(e) => {
                                         const latest = templateRef.current
-                                        const el = latest.elements.find((x) => x.id === selected.id)
+                                        const el = findElement(latest, selected.id)
                                         if (!el || el.type !== 'text') return
                                         const cur = el.style ?? {}
                                         const nextStyle: TextStyleV1 = { ...cur, borderColor: e.target.value }
@@ -2127,7 +3005,7 @@ export function TemplateDesigner({
                                       value={selected.style?.borderStyle ?? 'solid'}
                                       onChange={(e) => {
                                         const latest = templateRef.current
-                                        const el = latest.elements.find((x) => x.id === selected.id)
+                                        const el = findElement(latest, selected.id)
                                         if (!el || el.type !== 'text') return
                                         const cur = el.style ?? {}
                                         const nextStyle: TextStyleV1 = {
@@ -2149,7 +3027,7 @@ export function TemplateDesigner({
                                       value={selected.style?.borderSides ? 'custom' : 'all'}
                                       onChange={(e) => {
                                         const latest = templateRef.current
-                                        const el = latest.elements.find((x) => x.id === selected.id)
+                                        const el = findElement(latest, selected.id)
                                         if (!el || el.type !== 'text') return
                                         const cur = el.style ?? {}
                                         const nextStyle: TextStyleV1 =
@@ -2191,7 +3069,7 @@ export function TemplateDesigner({
                                           aria-pressed={isOn}
                                           onClick={() => {
                                             const latest = templateRef.current
-                                            const el = latest.elements.find((x) => x.id === selected.id)
+                                            const el = findElement(latest, selected.id)
                                             if (!el || el.type !== 'text') return
                                             const cur = el.style ?? {}
                                             const currentSides = cur.borderSides ?? {
@@ -2241,13 +3119,26 @@ export function TemplateDesigner({
                             <div style={{ fontSize: 12, fontWeight: 600 }}>Image ref</div>
                             <input
                               value={selected.imageRef}
+                              list="doc-designer-asset-refs"
                               onChange={(e) => {
                                 const latest = templateRef.current
-                                const el = latest.elements.find((x) => x.id === selected.id)
+                                const el = findElement(latest, selected.id)
                                 if (!el || el.type !== 'image') return
                                 applyTemplateChange(updateElement(latest, { ...el, imageRef: e.target.value }))
                               }}
                             />
+                            <datalist id="doc-designer-asset-refs">
+                              {assetRefs
+                                .filter((ref) => !ref.startsWith('data:'))
+                                .map((ref) => (
+                                  <option key={ref} value={ref} />
+                                ))}
+                            </datalist>
+                            {assetStatus[selected.imageRef]?.ok === false && (
+                              <div style={{ fontSize: 12, color: '#B45309' }}>
+                                This image could not be loaded. Manage images in the Assets tab.
+                              </div>
+                            )}
                           </label>
 
                           <label style={{ display: 'grid', gap: 4 }}>
@@ -2256,7 +3147,7 @@ export function TemplateDesigner({
                               value={selected.fit ?? 'contain'}
                               onChange={(e) => {
                                 const latest = templateRef.current
-                                const el = latest.elements.find((x) => x.id === selected.id)
+                                const el = findElement(latest, selected.id)
                                 if (!el || el.type !== 'image') return
                                 applyTemplateChange(updateElement(latest, { ...el, fit: e.target.value as any }))
                               }}
@@ -2278,7 +3169,7 @@ export function TemplateDesigner({
                                 value={typeof selected.opacity === 'number' ? selected.opacity : 1}
                                 onChange={(e) => {
                                   const latest = templateRef.current
-                                  const el = latest.elements.find((x) => x.id === selected.id)
+                                  const el = findElement(latest, selected.id)
                                   if (!el || el.type !== 'image') return
                                   applyTemplateChange(updateElement(latest, { ...el, opacity: Number(e.target.value) }))
                                 }}
@@ -2292,7 +3183,7 @@ export function TemplateDesigner({
                                 value={typeof selected.opacity === 'number' ? selected.opacity : 1}
                                 onChange={(e) => {
                                   const latest = templateRef.current
-                                  const el = latest.elements.find((x) => x.id === selected.id)
+                                  const el = findElement(latest, selected.id)
                                   if (!el || el.type !== 'image') return
                                   const raw = e.target.value
                                   const opacity = raw === '' ? 1 : Number(raw)
@@ -2315,11 +3206,12 @@ export function TemplateDesigner({
                               value={selected.dataTpl}
                               onChange={(e) => {
                                 const latest = templateRef.current
-                                const el = latest.elements.find((x) => x.id === selected.id)
+                                const el = findElement(latest, selected.id)
                                 if (!el || el.type !== 'qr') return
                                 applyTemplateChange(updateElement(latest, { ...el, dataTpl: e.target.value } as any))
                               }}
                             />
+                            <FieldErrors value={selected.dataTpl ?? ''} errors={fieldErrors(selected.id, 'dataTpl')} />
                           </label>
 
                           <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8 }}>
@@ -2329,7 +3221,7 @@ export function TemplateDesigner({
                                 value={selected.ecc ?? 'M'}
                                 onChange={(e) => {
                                   const latest = templateRef.current
-                                  const el = latest.elements.find((x) => x.id === selected.id)
+                                  const el = findElement(latest, selected.id)
                                   if (!el || el.type !== 'qr') return
                                   applyTemplateChange(updateElement(latest, { ...el, ecc: e.target.value as any } as any))
                                 }}
@@ -2350,7 +3242,7 @@ export function TemplateDesigner({
                                 value={typeof selected.marginModules === 'number' ? selected.marginModules : 4}
                                 onChange={(e) => {
                                   const latest = templateRef.current
-                                  const el = latest.elements.find((x) => x.id === selected.id)
+                                  const el = findElement(latest, selected.id)
                                   if (!el || el.type !== 'qr') return
                                   const raw = e.target.value
                                   const v = raw === '' ? undefined : Number(raw)
@@ -2366,7 +3258,7 @@ export function TemplateDesigner({
                                 value={selected.fgColor ?? '#000000'}
                                 onChange={(e) => {
                                   const latest = templateRef.current
-                                  const el = latest.elements.find((x) => x.id === selected.id)
+                                  const el = findElement(latest, selected.id)
                                   if (!el || el.type !== 'qr') return
                                   applyTemplateChange(updateElement(latest, { ...el, fgColor: e.target.value } as any))
                                 }}
@@ -2379,7 +3271,7 @@ export function TemplateDesigner({
                                 value={selected.bgColor ?? '#ffffff'}
                                 onChange={(e) => {
                                   const latest = templateRef.current
-                                  const el = latest.elements.find((x) => x.id === selected.id)
+                                  const el = findElement(latest, selected.id)
                                   if (!el || el.type !== 'qr') return
                                   applyTemplateChange(updateElement(latest, { ...el, bgColor: e.target.value } as any))
                                 }}
@@ -2398,7 +3290,7 @@ export function TemplateDesigner({
                               value={selected.thicknessPt ?? 1}
                               onChange={(e) => {
                                 const latest = templateRef.current
-                                const el = latest.elements.find((x) => x.id === selected.id)
+                                const el = findElement(latest, selected.id)
                                 if (!el || el.type !== 'line') return
                                 applyTemplateChange(updateElement(latest, { ...el, thicknessPt: Number(e.target.value) }))
                               }}
@@ -2410,7 +3302,7 @@ export function TemplateDesigner({
                               value={selected.color ?? ''}
                               onChange={(e) => {
                                 const latest = templateRef.current
-                                const el = latest.elements.find((x) => x.id === selected.id)
+                                const el = findElement(latest, selected.id)
                                 if (!el || el.type !== 'line') return
                                 applyTemplateChange(updateElement(latest, { ...el, color: e.target.value }))
                               }}
@@ -2424,7 +3316,7 @@ export function TemplateDesigner({
                               onChange={(e) => {
                                 const next = e.target.value as 'solid' | 'dashed' | 'dotted'
                                 const latest = templateRef.current
-                                const el = latest.elements.find((x) => x.id === selected.id)
+                                const el = findElement(latest, selected.id)
                                 if (!el || el.type !== 'line') return
                                 applyTemplateChange(updateElement(latest, { ...el, lineStyle: next }))
                               }}
@@ -2438,19 +3330,545 @@ export function TemplateDesigner({
                       )}
 
                       {selected.type === 'table' && (
-                        <div style={{ fontSize: 12, opacity: 0.75 }}>Table editing isn’t implemented yet.</div>
+                        <div style={{ display: 'grid', gap: 10 }}>
+                          <label style={{ display: 'grid', gap: 4 }}>
+                            <div style={{ fontSize: 12, fontWeight: 600 }}>Rows</div>
+                            <input
+                              value={selected.rowsExpr}
+                              placeholder="e.g. inputs.items"
+                              onChange={(e) => updateTable(selected.id, (el) => ({ ...el, rowsExpr: e.target.value }))}
+                            />
+                            <FieldErrors value={selected.rowsExpr} errors={fieldErrors(selected.id, 'rowsExpr')} />
+                          </label>
+                          <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+                            <select
+                              value=""
+                              disabled={arraySources.length === 0}
+                              onChange={(e) => {
+                                const expr = e.target.value
+                                if (expr) updateTable(selected.id, (el) => ({ ...el, rowsExpr: expr }))
+                              }}
+                              style={{ flex: 1 }}
+                            >
+                              <option value="">
+                                {arraySources.length > 0 ? 'Use a list…' : 'No lists in the sample data'}
+                              </option>
+                              {arraySources.map((src) => (
+                                <option key={src.expr} value={src.expr}>
+                                  {src.expr} ({src.rows.length} rows)
+                                </option>
+                              ))}
+                            </select>
+                            <div style={{ fontSize: 12, opacity: 0.75 }}>
+                              {selectedTableRows.length} sample row{selectedTableRows.length === 1 ? '' : 's'}
+                            </div>
+                          </div>
+
+                          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8 }}>
+                            <label style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                              <input
+                                type="checkbox"
+                                checked={selected.headerRow !== false}
+                                onChange={(e) =>
+                                  updateTable(selected.id, (el) => ({ ...el, headerRow: e.target.checked }))
+                                }
+                              />
+                              <span style={{ fontSize: 12, fontWeight: 600 }}>Header row</span>
+                            </label>
+                            <label style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                              <input
+                                type="checkbox"
+                                checked={selected.border !== false}
+                                onChange={(e) =>
+                                  updateTable(selected.id, (el) => ({ ...el, border: e.target.checked }))
+                                }
+                              />
+                              <span style={{ fontSize: 12, fontWeight: 600 }}>Border</span>
+                            </label>
+
+                            <label style={{ display: 'grid', gap: 4 }}>
+                              <div style={{ fontSize: 12, fontWeight: 600 }}>Font size (pt)</div>
+                              <input
+                                type="number"
+                                min={1}
+                                value={selected.fontSizePt ?? 12}
+                                onChange={(e) => {
+                                  const v = Number(e.target.value)
+                                  const fontSizePt = Number.isFinite(v) && v > 0 ? v : undefined
+                                  updateTable(selected.id, (el) => ({ ...el, fontSizePt }))
+                                }}
+                              />
+                            </label>
+                            <label style={{ display: 'grid', gap: 4 }}>
+                              <div style={{ fontSize: 12, fontWeight: 600 }}>Overflow</div>
+                              <select
+                                value={selected.overflow ?? 'clip'}
+                                onChange={(e) => {
+                                  const overflow = e.target.value as 'clip' | 'paginate'
+                                  updateTable(selected.id, (el) => ({ ...el, overflow }))
+                                }}
+                              >
+                                <option value="clip">clip</option>
+                                <option value="paginate">paginate</option>
+                              </select>
+                            </label>
+                          </div>
+
+                          {selected.overflow === 'paginate' && (
+                            <label style={{ display: 'grid', gap: 4 }}>
+                              <div style={{ fontSize: 12, fontWeight: 600 }}>Caption on continuation pages</div>
+                              <input
+                                value={selected.continuedCaption ?? ''}
+                                placeholder="e.g. Items (continued)"
+                                onChange={(e) => {
+                                  const continuedCaption = e.target.value || undefined
+                                  updateTable(selected.id, (el) => ({ ...el, continuedCaption }))
+                                }}
+                              />
+                              <FieldErrors
+                                value={selected.continuedCaption ?? ''}
+                                errors={fieldErrors(selected.id, 'continuedCaption')}
+                              />
+                            </label>
+                          )}
+
+                          <div style={{ fontSize: 12, fontWeight: 700 }}>Style</div>
+                          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8 }}>
+                            <label style={{ display: 'grid', gap: 4 }}>
+                              <div style={{ fontSize: 12, fontWeight: 600 }}>Header background</div>
+                              <input
+                                value={selected.headerStyle?.background ?? ''}
+                                placeholder="none"
+                                onChange={(e) => {
+                                  const background = e.target.value || undefined
+                                  updateTable(selected.id, (el) => ({
+                                    ...el,
+                                    headerStyle: { ...el.headerStyle, background },
+                                  }))
+                                }}
+                              />
+                            </label>
+                            <label style={{ display: 'grid', gap: 4 }}>
+                              <div style={{ fontSize: 12, fontWeight: 600 }}>Header text color</div>
+                              <input
+                                value={selected.headerStyle?.color ?? ''}
+                                placeholder="#111827"
+                                onChange={(e) => {
+                                  const color = e.target.value || undefined
+                                  updateTable(selected.id, (el) => ({
+                                    ...el,
+                                    headerStyle: { ...el.headerStyle, color },
+                                  }))
+                                }}
+                              />
+                            </label>
+                            <label style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                              <input
+                                type="checkbox"
+                                checked={selected.headerStyle?.fontWeight !== 'normal'}
+                                onChange={(e) => {
+                                  const fontWeight = e.target.checked ? undefined : 'normal'
+                                  updateTable(selected.id, (el) => ({
+                                    ...el,
+                                    headerStyle: { ...el.headerStyle, fontWeight },
+                                  }))
+                                }}
+                              />
+                              <span style={{ fontSize: 12, fontWeight: 600 }}>Bold header</span>
+                            </label>
+                            <label style={{ display: 'grid', gap: 4 }}>
+                              <div style={{ fontSize: 12, fontWeight: 600 }}>Stripe color</div>
+                              <input
+                                value={selected.stripeColor ?? ''}
+                                placeholder="none"
+                                onChange={(e) => {
+                                  const stripeColor = e.target.value || undefined
+                                  updateTable(selected.id, (el) => ({ ...el, stripeColor }))
+                                }}
+                              />
+                            </label>
+                            <label style={{ display: 'grid', gap: 4 }}>
+                              <div style={{ fontSize: 12, fontWeight: 600 }}>Cell padding (pt)</div>
+                              <input
+                                type="number"
+                                min={0}
+                                value={selected.cellPaddingPt ?? 3}
+                                onChange={(e) => {
+                                  const v = Number(e.target.value)
+                                  const cellPaddingPt =
+                                    e.target.value !== '' && Number.isFinite(v) && v >= 0 ? v : undefined
+                                  updateTable(selected.id, (el) => ({ ...el, cellPaddingPt }))
+                                }}
+                              />
+                            </label>
+                            <label style={{ display: 'grid', gap: 4 }}>
+                              <div style={{ fontSize: 12, fontWeight: 600 }}>Vertical align</div>
+                              <select
+                                value={selected.verticalAlign ?? 'top'}
+                                onChange={(e) => {
+                                  const verticalAlign = e.target.value as 'top' | 'middle' | 'bottom'
+                                  updateTable(selected.id, (el) => ({ ...el, verticalAlign }))
+                                }}
+                              >
+                                <option value="top">top</option>
+                                <option value="middle">middle</option>
+                                <option value="bottom">bottom</option>
+                              </select>
+                            </label>
+                            <label style={{ display: 'grid', gap: 4 }}>
+                              <div style={{ fontSize: 12, fontWeight: 600 }}>Border color</div>
+                              <input
+                                value={selected.borderColor ?? ''}
+                                placeholder="#E5E7EB"
+                                onChange={(e) => {
+                                  const borderColor = e.target.value || undefined
+                                  updateTable(selected.id, (el) => ({ ...el, borderColor }))
+                                }}
+                              />
+                            </label>
+                            <label style={{ display: 'grid', gap: 4 }}>
+                              <div style={{ fontSize: 12, fontWeight: 600 }}>Border width (pt)</div>
+                              <input
+                                type="number"
+                                min={0}
+                                step={0.25}
+                                value={selected.borderWidthPt ?? 0.75}
+                                onChange={(e) => {
+                                  const v = Number(e.target.value)
+                                  const borderWidthPt =
+                                    e.target.value !== '' && Number.isFinite(v) && v >= 0 ? v : undefined
+                                  updateTable(selected.id, (el) => ({ ...el, borderWidthPt }))
+                                }}
+                              />
+                            </label>
+                          </div>
+
+                          <div
+                            style={{
+                              display: 'grid',
+                              gridTemplateColumns: '90px 1fr 1fr',
+                              gap: 6,
+                              alignItems: 'center',
+                            }}
+                          >
+                            <div style={{ fontSize: 12, fontWeight: 600 }}>Edge</div>
+                            <div style={{ fontSize: 12, fontWeight: 600 }}>Width (pt)</div>
+                            <div style={{ fontSize: 12, fontWeight: 600 }}>Color</div>
+                            {TABLE_BORDER_EDGES.map(([edge, label]) => (
+                              <React.Fragment key={edge}>
+                                <div style={{ fontSize: 12 }}>{label}</div>
+                                <input
+                                  type="number"
+                                  min={0}
+                                  step={0.25}
+                                  value={selected.borders?.[edge]?.widthPt ?? ''}
+                                  placeholder="default"
+                                  onChange={(e) => {
+                                    const v = Number(e.target.value)
+                                    const widthPt =
+                                      e.target.value !== '' && Number.isFinite(v) && v >= 0 ? v : undefined
+                                    updateTableBorder(selected.id, edge, { widthPt })
+                                  }}
+                                />
+                                <input
+                                  value={selected.borders?.[edge]?.color ?? ''}
+                                  placeholder="default"
+                                  onChange={(e) =>
+                                    updateTableBorder(selected.id, edge, { color: e.target.value || undefined })
+                                  }
+                                />
+                              </React.Fragment>
+                            ))}
+                          </div>
+
+                          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                            <div style={{ fontSize: 12, fontWeight: 700, flex: 1 }}>Columns</div>
+                            <button
+                              onClick={() => {
+                                const columns = columnsFromSampleRow(selectedTableRows[0])
+                                updateTable(selected.id, (el) => ({ ...el, columns }))
+                              }}
+                              disabled={selectedTableRows.length === 0}
+                              title="Replace the columns with one per property of the first sample row"
+                            >
+                              From sample row
+                            </button>
+                            <button
+                              onClick={() =>
+                                updateTable(selected.id, (el) => ({
+                                  ...el,
+                                  columns: el.columns.map(({ widthPct: _, ...c }) => c),
+                                }))
+                              }
+                              title="Give every column the same width"
+                            >
+                              Equal widths
+                            </button>
+                            <button onClick={() => addTableColumn(selected.id)}>+ Column</button>
+                          </div>
+                          <div style={{ fontSize: 12, opacity: 0.75 }}>
+                            Drag the borders between columns in the preview to resize them. Cells use{' '}
+                            <code>row</code> for the current item.
+                          </div>
+
+                          {selected.columns.map((col, colIdx) => (
+                            <div
+                              key={selectedColumnKeys[colIdx]}
+                              style={{
+                                border: '1px solid #E5E7EB',
+                                borderRadius: 8,
+                                padding: 10,
+                                display: 'grid',
+                                gap: 8,
+                              }}
+                            >
+                              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 80px', gap: 8 }}>
+                                <label style={{ display: 'grid', gap: 4 }}>
+                                  <div style={{ fontSize: 12, fontWeight: 600 }}>Header</div>
+                                  <input
+                                    value={col.header ?? ''}
+                                    placeholder={col.key}
+                                    onChange={(e) =>
+                                      updateTableColumn(selected.id, colIdx, { header: e.target.value || undefined })
+                                    }
+                                  />
+                                </label>
+                                <label style={{ display: 'grid', gap: 4 }}>
+                                  <div style={{ fontSize: 12, fontWeight: 600 }}>Key</div>
+                                  <RenameInput
+                                    value={col.key}
+                                    taken={selected.columns.map((c) => c.key)}
+                                    emptyError="The key cannot be empty."
+                                    takenError="Another column already uses this key."
+                                    onRename={(key) => updateTableColumn(selected.id, colIdx, { key })}
+                                  />
+                                </label>
+                                <label style={{ display: 'grid', gap: 4 }}>
+                                  <div style={{ fontSize: 12, fontWeight: 600 }}>Width %</div>
+                                  <input
+                                    type="number"
+                                    min={0}
+                                    max={100}
+                                    value={col.widthPct ?? ''}
+                                    placeholder="auto"
+                                    onChange={(e) => {
+                                      const v = Number(e.target.value)
+                                      const valid = e.target.value !== '' && Number.isFinite(v) && v > 0
+                                      const widthPct = valid ? Math.min(100, v) : undefined
+                                      updateTableColumn(selected.id, colIdx, { widthPct })
+                                    }}
+                                  />
+                                </label>
+                              </div>
+
+                              <label style={{ display: 'grid', gap: 4 }}>
+                                <div style={{ fontSize: 12, fontWeight: 600 }}>Cell template</div>
+                                <textarea
+                                  rows={2}
+                                  value={col.cellTpl}
+                                  onChange={(e) => updateTableColumn(selected.id, colIdx, { cellTpl: e.target.value })}
+                                />
+                                <FieldErrors
+                                  value={col.cellTpl}
+                                  errors={fieldErrors(selected.id, `columns[${colIdx}].cellTpl`)}
+                                />
+                              </label>
+
+                              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr 1fr', gap: 8 }}>
+                                <label style={{ display: 'grid', gap: 4 }}>
+                                  <div style={{ fontSize: 12, fontWeight: 600 }}>Align</div>
+                                  <select
+                                    value={col.align ?? 'left'}
+                                    onChange={(e) =>
+                                      updateTableColumn(selected.id, colIdx, {
+                                        align: e.target.value as 'left' | 'center' | 'right',
+                                      })
+                                    }
+                                  >
+                                    <option value="left">left</option>
+                                    <option value="center">center</option>
+                                    <option value="right">right</option>
+                                  </select>
+                                </label>
+                                <label style={{ display: 'grid', gap: 4 }}>
+                                  <div style={{ fontSize: 12, fontWeight: 600 }}>Number format</div>
+                                  <select
+                                    value={col.numberFormat?.style ?? (col.numberFormat ? 'decimal' : '')}
+                                    onChange={(e) => {
+                                      const style = e.target.value as 'decimal' | 'currency' | 'percent' | ''
+                                      const currency =
+                                        style === 'currency' ? (col.numberFormat?.currency ?? 'USD') : undefined
+                                      const numberFormat = style ? { ...col.numberFormat, style, currency } : undefined
+                                      updateTableColumn(selected.id, colIdx, { numberFormat })
+                                    }}
+                                  >
+                                    <option value="">none</option>
+                                    <option value="decimal">number</option>
+                                    <option value="currency">currency</option>
+                                    <option value="percent">percent</option>
+                                  </select>
+                                </label>
+                                {col.numberFormat && (
+                                  <label style={{ display: 'grid', gap: 4 }}>
+                                    <div style={{ fontSize: 12, fontWeight: 600 }}>Decimals</div>
+                                    <input
+                                      type="number"
+                                      min={0}
+                                      max={20}
+                                      value={col.numberFormat.decimals ?? ''}
+                                      placeholder="auto"
+                                      onChange={(e) => {
+                                        const v = Number(e.target.value)
+                                        const valid = e.target.value !== '' && Number.isInteger(v) && v >= 0 && v <= 20
+                                        const decimals = valid ? v : undefined
+                                        updateTableColumn(selected.id, colIdx, {
+                                          numberFormat: { ...col.numberFormat, decimals },
+                                        })
+                                      }}
+                                    />
+                                  </label>
+                                )}
+                                {col.numberFormat?.style === 'currency' && (
+                                  <label style={{ display: 'grid', gap: 4 }}>
+                                    <div style={{ fontSize: 12, fontWeight: 600 }}>Currency</div>
+                                    <input
+                                      value={col.numberFormat.currency ?? ''}
+                                      placeholder="USD"
+                                      onChange={(e) =>
+                                        updateTableColumn(selected.id, colIdx, {
+                                          numberFormat: { ...col.numberFormat, currency: e.target.value.toUpperCase() },
+                                        })
+                                      }
+                                    />
+                                  </label>
+                                )}
+                              </div>
+
+                              <div style={{ display: 'flex', gap: 8 }}>
+                                <button
+                                  onClick={() => moveTableColumn(selected.id, colIdx, -1)}
+                                  disabled={colIdx === 0}
+                                >
+                                  ← Move left
+                                </button>
+                                <button
+                                  onClick={() => moveTableColumn(selected.id, colIdx, 1)}
+                                  disabled={colIdx === selected.columns.length - 1}
+                                >
+                                  Move right →
+                                </button>
+                                <div style={{ flex: 1 }} />
+                                <button onClick={() => removeTableColumn(selected.id, colIdx)}>Remove</button>
+                              </div>
+                            </div>
+                          ))}
+
+                          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                            <div style={{ fontSize: 12, fontWeight: 700, flex: 1 }}>Row styles</div>
+                            <button onClick={() => addTableRowStyle(selected.id)}>+ Row style</button>
+                          </div>
+                          <div style={{ fontSize: 12, opacity: 0.75 }}>
+                            Applied to the rows where the condition is true, e.g. <code>row.total {'<'} 0</code>. Later
+                            styles win.
+                          </div>
+                          {(selected.rowStyles ?? []).map((rowStyle, styleIdx) => (
+                            <div
+                              key={styleIdx}
+                              style={{
+                                border: '1px solid #E5E7EB',
+                                borderRadius: 8,
+                                padding: 10,
+                                display: 'grid',
+                                gap: 8,
+                              }}
+                            >
+                              <label style={{ display: 'grid', gap: 4 }}>
+                                <div style={{ fontSize: 12, fontWeight: 600 }}>When</div>
+                                <input
+                                  value={rowStyle.when}
+                                  onChange={(e) => updateTableRowStyle(selected.id, styleIdx, { when: e.target.value })}
+                                />
+                                <FieldErrors
+                                  value={rowStyle.when}
+                                  errors={fieldErrors(selected.id, `rowStyles[${styleIdx}].when`)}
+                                />
+                              </label>
+                              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8 }}>
+                                <label style={{ display: 'grid', gap: 4 }}>
+                                  <div style={{ fontSize: 12, fontWeight: 600 }}>Background</div>
+                                  <input
+                                    value={rowStyle.background ?? ''}
+                                    onChange={(e) =>
+                                      updateTableRowStyle(selected.id, styleIdx, {
+                                        background: e.target.value || undefined,
+                                      })
+                                    }
+                                  />
+                                </label>
+                                <label style={{ display: 'grid', gap: 4 }}>
+                                  <div style={{ fontSize: 12, fontWeight: 600 }}>Text color</div>
+                                  <input
+                                    value={rowStyle.color ?? ''}
+                                    onChange={(e) =>
+                                      updateTableRowStyle(selected.id, styleIdx, { color: e.target.value || undefined })
+                                    }
+                                  />
+                                </label>
+                              </div>
+                              <div style={{ display: 'flex', gap: 12, alignItems: 'center' }}>
+                                <label style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                                  <input
+                                    type="checkbox"
+                                    checked={rowStyle.fontWeight === 'bold'}
+                                    onChange={(e) =>
+                                      updateTableRowStyle(selected.id, styleIdx, {
+                                        fontWeight: e.target.checked ? 'bold' : undefined,
+                                      })
+                                    }
+                                  />
+                                  <span style={{ fontSize: 12, fontWeight: 600 }}>Bold</span>
+                                </label>
+                                <label style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                                  <input
+                                    type="checkbox"
+                                    checked={rowStyle.fontStyle === 'italic'}
+                                    onChange={(e) =>
+                                      updateTableRowStyle(selected.id, styleIdx, {
+                                        fontStyle: e.target.checked ? 'italic' : undefined,
+                                      })
+                                    }
+                                  />
+                                  <span style={{ fontSize: 12, fontWeight: 600 }}>Italic</span>
+                                </label>
+                                <div style={{ flex: 1 }} />
+                                <button onClick={() => removeTableRowStyle(selected.id, styleIdx)}>Remove</button>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
                       )}
                     </div>
                   )}
                 </div>
 
-                {errors.length > 0 && (
+                {expressionErrors.length > 0 && (
                   <div style={{ padding: 10, border: '1px solid #FCA5A5', background: '#FEF2F2', borderRadius: 8 }}>
-                    <div style={{ fontSize: 12, fontWeight: 700, marginBottom: 6 }}>Evaluation warnings</div>
+                    <div style={{ fontSize: 12, fontWeight: 700, marginBottom: 6 }}>Expression errors</div>
                     <ul style={{ margin: 0, paddingLeft: 18 }}>
-                      {errors.map((e, i) => (
+                      {expressionErrors.map((e, i) => (
                         <li key={i} style={{ fontSize: 12 }}>
-                          {e}
+                          {e.source.elementId ? (
+                            <button
+                              type="button"
+                              onClick={() => setSelectedId(e.source.elementId!)}
+                              style={{ padding: 0, border: 'none', background: 'none', color: '#4338CA', cursor: 'pointer' }}
+                            >
+                              {formatErrorSource(e)}
+                            </button>
+                          ) : (
+                            <code>{formatErrorSource(e)}</code>
+                          )}
+                          : {e.message}
                         </li>
                       ))}
                     </ul>
@@ -2460,6 +3878,139 @@ export function TemplateDesigner({
             </div>
           )}
 
+          {activeTab === 'Assets' && (
+            <div style={{ display: 'grid', gap: 10 }}>
+              <div
+                onDragOver={(e) => {
+                  if (!Array.from(e.dataTransfer.types).includes('Files')) return
+                  e.preventDefault()
+                  setAssetDropActive(true)
+                }}
+                onDragLeave={() => setAssetDropActive(false)}
+                onDrop={(e) => {
+                  e.preventDefault()
+                  setAssetDropActive(false)
+                  uploadImages(Array.from(e.dataTransfer.files))
+                }}
+                style={{
+                  display: 'grid',
+                  gap: 6,
+                  justifyItems: 'center',
+                  padding: 14,
+                  border: `1px dashed ${assetDropActive ? '#2563EB' : '#D1D5DB'}`,
+                  borderRadius: 8,
+                  background: assetDropActive ? '#EFF6FF' : '#F9FAFB',
+                }}
+              >
+                <div style={{ fontSize: 12, opacity: 0.75 }}>Drop images here to add them to the active page, or</div>
+                <label style={{ fontSize: 12 }}>
+                  <input
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    onChange={(e) => {
+                      const files = Array.from(e.target.files ?? [])
+                      e.target.value = ''
+                      uploadImages(files)
+                    }}
+                  />
+                </label>
+                <div style={{ fontSize: 11, opacity: 0.6 }}>
+                  {onUploadAsset
+                    ? 'Images are uploaded by the host app.'
+                    : isPackage
+                      ? 'Images are embedded in the package.'
+                      : 'Images are embedded as data URLs in the image ref.'}
+                </div>
+              </div>
+
+              {assetError && <div style={{ fontSize: 12, color: '#B91C1C' }}>{assetError}</div>}
+              {assetRefs.length === 0 && <div style={{ fontSize: 12, opacity: 0.75 }}>No images yet.</div>}
+
+              {assetRefs.map((ref) => {
+                const status = assetStatus[ref]
+                const uses = assetUsage.get(ref) ?? 0
+                const isEmbedded = !!packageAssets && Object.prototype.hasOwnProperty.call(packageAssets, ref)
+                const isDataUrl = ref.startsWith('data:')
+                return (
+                  <div
+                    key={getAssetRowId(ref)}
+                    style={{
+                      display: 'grid',
+                      gridTemplateColumns: '64px 1fr',
+                      gap: 10,
+                      alignItems: 'start',
+                      border: `1px solid ${status?.ok === false ? '#FCD34D' : '#E5E7EB'}`,
+                      borderRadius: 8,
+                      padding: 10,
+                    }}
+                  >
+                    <div
+                      style={{
+                        width: 64,
+                        height: 64,
+                        display: 'grid',
+                        placeItems: 'center',
+                        border: '1px solid #E5E7EB',
+                        borderRadius: 6,
+                        background: '#F9FAFB',
+                        overflow: 'hidden',
+                        fontSize: 20,
+                      }}
+                    >
+                      {status?.ok ? (
+                        <img src={status.url} alt="" style={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'contain' }} />
+                      ) : status ? (
+                        '⚠'
+                      ) : null}
+                    </div>
+                    <div style={{ display: 'grid', gap: 6, minWidth: 0 }}>
+                      <label style={{ display: 'grid', gap: 4 }}>
+                        <div style={{ fontSize: 12, fontWeight: 600 }}>Ref</div>
+                        {isDataUrl ? (
+                          <div style={{ fontSize: 12, opacity: 0.75 }}>Embedded data URL</div>
+                        ) : (
+                          <RenameInput
+                            value={ref}
+                            taken={assetRefs}
+                            emptyError="The ref cannot be empty."
+                            takenError="Another image already uses this ref."
+                            onRename={(nextRef) => renameAsset(ref, nextRef)}
+                          />
+                        )}
+                      </label>
+                      <div style={{ fontSize: 12, opacity: 0.75 }}>
+                        {uses === 0 ? 'Unused' : `Used by ${uses} element${uses === 1 ? '' : 's'}`}
+                        {isEmbedded ? ' · embedded' : ''}
+                      </div>
+                      {status?.ok === false && (
+                        <div style={{ fontSize: 12, color: '#B45309' }}>
+                          Could not load this image{status.url ? ` from ${status.url.slice(0, 80)}` : ''}.
+                        </div>
+                      )}
+                      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+                        <label style={{ fontSize: 12 }}>
+                          Replace{' '}
+                          <input
+                            type="file"
+                            accept="image/*"
+                            style={{ width: 180 }}
+                            onChange={(e) => {
+                              const file = e.target.files?.[0]
+                              e.target.value = ''
+                              if (file) replaceAsset(ref, file)
+                            }}
+                          />
+                        </label>
+                        {isEmbedded && uses === 0 && <button onClick={() => removeAsset(ref)}>Remove</button>}
+                      </div>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+
           {activeTab === 'Inputs' && (
             <div style={{ display: 'grid', gap: 10 }}>
               <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
@@ -2636,7 +4187,9 @@ export function TemplateDesigner({
                         <div>
                           <div style={{ fontWeight: 800, marginBottom: 6 }}>Available identifiers</div>
                           <div style={{ opacity: 0.85, lineHeight: 1.5 }}>
-                            <code>inputs</code>, <code>constants</code>, <code>vars</code>, <code>row</code>, plus literals{' '}
+                            <code>inputs</code>, <code>constants</code>, <code>vars</code>, <code>row</code>, <code>page</code>{' '}
+                            (<code>number</code>, <code>count</code>, <code>section</code>, <code>sectionNumber</code>,{' '}
+                            <code>sectionCount</code>), plus literals{' '}
                             <code>true</code>, <code>false</code>, <code>null</code>, <code>undefined</code>.
                           </div>
                         </div>
@@ -2710,19 +4263,19 @@ export function TemplateDesigner({
                                 <div style={{ display: 'flex', alignItems: 'baseline', gap: 8, flexWrap: 'wrap' }}>
                                   <code style={{ fontWeight: 800 }}>{name}</code>
                                   <span style={{ fontSize: 12, opacity: 0.8 }}>
-                                    <code>{FUNCTION_DOCS[name]?.signature ?? `${name}(...)`}</code>
+                                    <code>{docs[name]?.signature ?? `${name}(...)`}</code>
                                   </span>
                                 </div>
 
                                 <div style={{ fontSize: 12, marginTop: 4, opacity: 0.9 }}>
-                                  {FUNCTION_DOCS[name]?.description ?? 'No documentation available yet.'}
+                                  {docs[name]?.description ?? 'No documentation available yet.'}
                                 </div>
 
-                                {FUNCTION_DOCS[name]?.examples?.length ? (
+                                {docs[name]?.examples?.length ? (
                                   <div style={{ marginTop: 6, display: 'grid', gap: 4 }}>
                                     <div style={{ fontSize: 12, fontWeight: 700, opacity: 0.85 }}>Examples</div>
                                     <div style={{ display: 'grid', gap: 4 }}>
-                                      {FUNCTION_DOCS[name]!.examples.map((ex) => (
+                                      {docs[name]!.examples.map((ex) => (
                                         <div
                                           key={ex}
                                           style={{
@@ -2739,9 +4292,9 @@ export function TemplateDesigner({
                                   </div>
                                 ) : null}
 
-                                {FUNCTION_DOCS[name]?.notes?.length ? (
+                                {docs[name]?.notes?.length ? (
                                   <div style={{ marginTop: 6, fontSize: 12, opacity: 0.85 }}>
-                                    {FUNCTION_DOCS[name]!.notes.map((n) => (
+                                    {docs[name]!.notes.map((n) => (
                                       <div key={n}>• {n}</div>
                                     ))}
                                   </div>
@@ -2780,21 +4333,22 @@ export function TemplateDesigner({
             assetResolver={assetResolver}
             interaction={{
               selectedId: isPdfPreviewing ? null : selectedId,
+              activePageIndex: activePage.index,
               onElementPointerDown,
               onElementClick: (id) => {
                 setSelectedId(id)
                 focusPreview()
               },
-              alignmentGuidesPt: isPdfPreviewing ? undefined : alignmentGuidesPt,
-              spacingGuidesPt: isPdfPreviewing ? undefined : { lines: spacingGuidesPt },
+              alignmentGuidesPt: isPdfPreviewing ? undefined : previewGuides.alignment,
+              spacingGuidesPt: isPdfPreviewing ? undefined : { lines: previewGuides.spacing },
               onElementResizePointerDown: (id, handle, e) => {
                 if (e.button !== 0) return
                 e.preventDefault()
                 e.stopPropagation()
 
                 const latest = templateRef.current
-                const el = latest.elements.find((x) => x.id === id)
-                if (!el || (el.type !== 'text' && el.type !== 'image' && el.type !== 'qr')) return
+                const el = findElement(latest, id)
+                if (!el || el.type === 'line') return
 
                 setSelectedId(id)
                 focusPreview()
@@ -2804,7 +4358,7 @@ export function TemplateDesigner({
                 resizeHistoryRef.current.base = latest
                 resizeHistoryRef.current.didMove = false
 
-                const { wPt, hPt } = getPageSizePt(latest.page.size, latest.page.orientation, latest.page.customSizePt)
+                const { wPt, hPt } = getElementSurfaceSizePt(latest, id)
                 setResizeDrag({
                   id,
                   handle,
@@ -2815,13 +4369,36 @@ export function TemplateDesigner({
                   pageHPt: hPt,
                 })
               },
+              onTableColumnResizePointerDown: (id, colIdx, e) => {
+                if (e.button !== 0) return
+                e.preventDefault()
+                e.stopPropagation()
+
+                const latest = templateRef.current
+                const el = findElement(latest, id)
+                if (!el || el.type !== 'table') return
+
+                setDrag(null)
+                setResizeDrag(null)
+
+                resizeHistoryRef.current.base = latest
+                resizeHistoryRef.current.didMove = false
+
+                setColumnResizeDrag({
+                  id,
+                  colIdx,
+                  startClientX: e.clientX,
+                  baseWidthsPct: getTableColumnWidthsPct(el),
+                  tableWPt: el.rect.wPt,
+                })
+              },
               onLineEndpointPointerDown: (id, endpoint, e) => {
                 if (e.button !== 0) return
                 e.preventDefault()
                 e.stopPropagation()
 
                 const latest = templateRef.current
-                const el = latest.elements.find((x) => x.id === id)
+                const el = findElement(latest, id)
                 if (!el || el.type !== 'line') return
 
                 setSelectedId(id)
@@ -2833,7 +4410,7 @@ export function TemplateDesigner({
                 lineEndpointHistoryRef.current.base = latest
                 lineEndpointHistoryRef.current.didMove = false
 
-                const { wPt, hPt } = getPageSizePt(latest.page.size, latest.page.orientation, latest.page.customSizePt)
+                const { wPt, hPt } = getElementSurfaceSizePt(latest, id)
                 setLineEndpointDrag({
                   id,
                   endpoint,
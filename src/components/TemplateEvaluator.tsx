@@ -1,8 +1,9 @@
 import React from 'react'
-import type { AssetResolver, DocumentTemplateV1 } from '../core/types'
-import { buildEvalContext } from '../core/evaluate'
+import type { AssetResolver, DocumentTemplatePackageV1, DocumentTemplateV1, FunctionMap } from '../core/types'
+import { unpackTemplate } from '../core/assets'
+import { buildEvalContext, evaluateTemplate, formatExpressionError } from '../core/evaluate'
 import { DocumentPreview } from '../core/render'
-import { openPdfPreviewFromElement } from '../core/pdf'
+import { openPdfPreview, type PdfBackend } from '../core/pdf'
 import { TemplateInputForm } from './TemplateInputForm'
 
 function buildDefaultInputs(template: DocumentTemplateV1): Record<string, unknown> {
@@ -14,20 +15,43 @@ function buildDefaultInputs(template: DocumentTemplateV1): Record<string, unknow
 }
 
 export function TemplateEvaluator({
-  template,
+  template: source,
   inputs,
   onInputsChange,
-  assetResolver,
+  assetResolver: hostAssetResolver,
   onPrintOpen,
   readOnly,
+  pdfBackend = 'raster',
+  locale,
+  timeZone,
+  strict,
+  functions,
 }: {
-  template: DocumentTemplateV1
+  /** A template, or a package whose embedded images are used before `assetResolver`. */
+  template: DocumentTemplateV1 | DocumentTemplatePackageV1
   inputs?: Record<string, unknown>
   onInputsChange?: (next: Record<string, unknown>) => void
   assetResolver?: AssetResolver
   onPrintOpen?: (payload: { inputs: Record<string, unknown>; vars: Record<string, unknown> }) => void
   readOnly?: boolean
+  /** How Print builds the PDF (defaults to capturing the preview). */
+  pdfBackend?: PdfBackend
+  /** Overrides the template's `locale` (e.g. the signed-in user's). */
+  locale?: string
+  /** Overrides the template's `timeZone`. */
+  timeZone?: string
+  /**
+   * Block printing while any expression fails (variables, text, QR data, `visibleIf`, table rows and cells), showing
+   * the errors instead. Without it, errors are listed as warnings and printed inline as `[expr error: ...]`.
+   */
+  strict?: boolean
+  /** Host functions available to the template's expressions in addition to the built-in helpers. */
+  functions?: FunctionMap
 }) {
+  const { template, assetResolver } = React.useMemo(
+    () => unpackTemplate(source, hostAssetResolver),
+    [source, hostAssetResolver],
+  )
   const previewWrapRef = React.useRef<HTMLDivElement | null>(null)
   const [uncontrolledInputs, setUncontrolledInputs] = React.useState<Record<string, unknown>>(() =>
     buildDefaultInputs(template),
@@ -40,7 +64,12 @@ export function TemplateEvaluator({
   }, [template])
 
   const currentInputs = inputs ?? uncontrolledInputs
-  const { ctx, errors } = React.useMemo(() => buildEvalContext(template, currentInputs), [template, currentInputs])
+  const { ctx, errors, blockingErrors } = React.useMemo(() => {
+    const options = { locale, timeZone }
+    if (!strict) return { ...buildEvalContext(template, currentInputs, functions, options), blockingErrors: [] }
+    const evaluation = evaluateTemplate(template, currentInputs, { ...options, functions })
+    return { ctx: evaluation.ctx, errors: [], blockingErrors: evaluation.errors.map(formatExpressionError) }
+  }, [template, currentInputs, locale, timeZone, strict, functions])
 
   const handleInputsChange = (next: Record<string, unknown>) => {
     if (readOnly) return
@@ -53,7 +82,7 @@ export function TemplateEvaluator({
 
   const onPrint = async () => {
     const root = previewWrapRef.current?.querySelector('[data-doc-root]') as HTMLElement | null
-    if (!root) return
+    if (!root || blockingErrors.length > 0) return
 
     try {
       onPrintOpen?.({ inputs: currentInputs, vars: ctx.vars })
@@ -61,16 +90,29 @@ export function TemplateEvaluator({
       // ignore callback errors
     }
 
-    // Re-use the stable PDF preview path.
     // Users can print from the PDF viewer dialog.
-    await openPdfPreviewFromElement(root, template)
+    await openPdfPreview(template, currentInputs, {
+      backend: pdfBackend,
+      element: root,
+      assetResolver,
+      locale,
+      timeZone,
+      strict,
+      functions,
+    })
   }
 
   return (
     <div style={{ display: 'grid', gridTemplateColumns: '360px 1fr', gap: 16, alignItems: 'start' }}>
       <section style={{ display: 'grid', gap: 12 }}>
         <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
-          <button onClick={onPrint}>Print</button>
+          <button
+            onClick={onPrint}
+            disabled={blockingErrors.length > 0}
+            title={blockingErrors.length > 0 ? 'Fix the expression errors before printing' : undefined}
+          >
+            Print
+          </button>
         </div>
 
         <div style={{ padding: 12, border: '1px solid #E5E7EB', borderRadius: 6 }}>
@@ -78,6 +120,21 @@ export function TemplateEvaluator({
           <TemplateInputForm inputs={template.inputs} values={currentInputs} onChange={handleInputsChange} readOnly={readOnly} />
         </div>
 
+        {blockingErrors.length > 0 && (
+          <div style={{ padding: 12, border: '1px solid #F87171', background: '#FEF2F2', borderRadius: 6 }}>
+            <div style={{ fontWeight: 700, marginBottom: 6 }}>
+              Can’t print: {blockingErrors.length} expression error{blockingErrors.length === 1 ? '' : 's'}
+            </div>
+            <ul style={{ margin: 0, paddingLeft: 18 }}>
+              {blockingErrors.map((e, i) => (
+                <li key={i} style={{ fontSize: 12 }}>
+                  {e}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {errors.length > 0 && (
           <div style={{ padding: 12, border: '1px solid #FCA5A5', background: '#FEF2F2', borderRadius: 6 }}>
             <div style={{ fontWeight: 700, marginBottom: 6 }}>Evaluation warnings</div>
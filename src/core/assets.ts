@@ -0,0 +1,100 @@
+import type { AssetResolver, DocumentTemplatePackageV1, DocumentTemplateV1, PackageAssetV1 } from './types'
+import { getAllElements } from './pages'
+
+/** Maps an `imageRef` to a URL. Without a resolver the ref is used as the URL. */
+export async function resolveImage(imageRef: string, resolver?: AssetResolver): Promise<string> {
+  if (!resolver) return imageRef
+  const out = resolver(imageRef)
+  return typeof out === 'string' ? out : await out
+}
+
+export function isTemplatePackage(value: unknown): value is DocumentTemplatePackageV1 {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false
+  const template = (value as { template?: unknown }).template
+  return !!template && typeof template === 'object' && !('schemaVersion' in value)
+}
+
+/** Every `imageRef` used by the template (all pages and header/footer bands), in document order. */
+export function getImageRefs(template: DocumentTemplateV1): string[] {
+  const refs = new Set<string>()
+  for (const el of getAllElements(template)) {
+    if (el.type === 'image') refs.add(el.imageRef)
+  }
+  return [...refs]
+}
+
+/** Resolves refs embedded in `assets` to their data URLs and everything else through `fallback`. */
+export function createPackageAssetResolver(
+  assets: Record<string, PackageAssetV1> | undefined,
+  fallback?: AssetResolver,
+): AssetResolver | undefined {
+  if (!assets || Object.keys(assets).length === 0) return fallback
+  return (ref) => {
+    const asset = Object.prototype.hasOwnProperty.call(assets, ref) ? assets[ref] : undefined
+    if (asset) return asset.dataUrl
+    return fallback ? fallback(ref) : ref
+  }
+}
+
+/**
+ * Accepts a template or a package and returns the template plus a resolver that serves the package's embedded
+ * images before falling back to `assetResolver`.
+ */
+export function unpackTemplate(
+  source: DocumentTemplateV1 | DocumentTemplatePackageV1,
+  assetResolver?: AssetResolver,
+): { template: DocumentTemplateV1; assets: Record<string, PackageAssetV1>; assetResolver?: AssetResolver } {
+  if (!isTemplatePackage(source)) return { template: source, assets: {}, assetResolver }
+  const assets = source.assets ?? {}
+  return { template: source.template, assets, assetResolver: createPackageAssetResolver(assets, assetResolver) }
+}
+
+function getDataUrlMimeType(dataUrl: string): string | undefined {
+  const m = /^data:([^;,]+)/i.exec(dataUrl)
+  return m?.[1]
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ''
+  // Chunked so large images don't overflow the argument limit of String.fromCharCode.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+/** Downloads `url` (or takes a data URL as is) as an embeddable asset. */
+export async function fetchAsset(url: string): Promise<PackageAssetV1> {
+  if (url.startsWith('data:')) return { dataUrl: url, mimeType: getDataUrlMimeType(url) }
+  const res = await fetch(url)
+  if (!res.ok) throw new Error(`Failed to load ${url}: ${res.status}`)
+  const mimeType = res.headers.get('content-type')?.split(';')[0]?.trim() || 'application/octet-stream'
+  const bytes = new Uint8Array(await res.arrayBuffer())
+  return { dataUrl: `data:${mimeType};base64,${bytesToBase64(bytes)}`, mimeType }
+}
+
+/**
+ * Embeds every image the template references into a package. Images already embedded in `source` (when it is a
+ * package) are kept; the rest are resolved with `assetResolver` and downloaded. Assets no longer referenced are
+ * dropped. Throws if an image can't be loaded, so the result is always self-contained.
+ */
+export async function packTemplate(
+  source: DocumentTemplateV1 | DocumentTemplatePackageV1,
+  assetResolver?: AssetResolver,
+): Promise<DocumentTemplatePackageV1> {
+  const { template, assets } = unpackTemplate(source)
+
+  const entries = await Promise.all(
+    getImageRefs(template).map(async (ref) => {
+      const existing = Object.prototype.hasOwnProperty.call(assets, ref) ? assets[ref] : undefined
+      if (existing) return [ref, existing] as const
+      try {
+        return [ref, await fetchAsset(await resolveImage(ref, assetResolver))] as const
+      } catch (e) {
+        throw new Error(`Could not embed image "${ref}": ${e instanceof Error ? e.message : String(e)}`)
+      }
+    }),
+  )
+
+  return { template, assets: Object.fromEntries(entries) }
+}
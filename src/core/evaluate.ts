@@ -1,29 +1,174 @@
-import type { DocumentTemplateV1, EvalContext, FunctionMap } from './types'
-import { defaultFunctions, evalExpression } from './expr'
+import type { DocumentTemplateV1, EvalContext, EvalOptions, EvalPageInfo, FunctionMap } from './types'
+import { compileExpression, defaultFunctions, ExpressionError, toExpressionError } from './expr'
 import { evaluateVariables } from './vars'
+import { evalTemplateString } from './templateStrings'
+import { getAllElements, getPageCount } from './pages'
 
+/**
+ * `functions` registers host functions for every expression evaluated with the returned context (variables,
+ * template strings, visibility, tables, QR payloads); they are added to the built-in helpers and take precedence
+ * over a built-in of the same name. `options` overrides the template's `locale` / `timeZone` and sets evaluation
+ * `limits`. Only the template's `constants`, `variables`, `locale` and `timeZone` are read.
+ */
 export function buildEvalContext(
-  template: DocumentTemplateV1,
+  template: Pick<DocumentTemplateV1, 'constants' | 'variables' | 'locale' | 'timeZone'>,
   inputs: Record<string, unknown>,
   functions?: FunctionMap,
-): { ctx: EvalContext; errors: string[] } {
-  const fn = functions ?? defaultFunctions()
+  options?: EvalOptions,
+): { ctx: EvalContext; errors: string[]; expressionErrors: ExpressionError[] } {
+  const locale = options?.locale || template.locale || undefined
+  const timeZone = options?.timeZone || template.timeZone || undefined
+  const fn = { ...defaultFunctions({ locale, timeZone }), ...functions }
 
   const base = {
     inputs,
     constants: template.constants ?? {},
+    locale,
+    timeZone,
+    limits: options?.limits,
+    functions: fn,
   }
 
-  const { vars, errors: varErrors } = evaluateVariables(template.variables ?? {}, base, fn)
-  return { ctx: { ...base, vars }, errors: [...varErrors] }
+  const { vars, errors, expressionErrors } = evaluateVariables(template.variables ?? {}, base, fn)
+  return { ctx: { ...base, vars }, errors, expressionErrors }
 }
 
 export function evalBoolean(expr: string | undefined, ctx: EvalContext, functions?: FunctionMap): boolean {
   if (!expr) return true
-  const fn = functions ?? defaultFunctions()
   try {
-    return Boolean(evalExpression(expr, ctx, fn))
+    return Boolean(compileExpression(expr)(ctx, functions))
   } catch {
     return false
   }
 }
+
+export type EvaluateTemplateOptions = EvalOptions & {
+  /** Host functions, as for `buildEvalContext`. */
+  functions?: FunctionMap
+}
+
+export type TemplateEvaluation = {
+  ctx: EvalContext
+  /** Variable errors first, then element errors in document order. Empty when everything evaluated. */
+  errors: ExpressionError[]
+}
+
+/**
+ * Evaluates every expression of the template against `inputs` (variables, `visibleIf`, text and QR templates,
+ * table rows, cells, row styles and captions) and reports each failure as an `ExpressionError` located by element
+ * id and field (or variable key). Elements hidden by their `visibleIf` are skipped, as they aren't printed. A cell
+ * or row style error is reported once per column or style, for the first row it occurs in. Page content sees `page`
+ * as the first page.
+ */
+export function evaluateTemplate(
+  template: DocumentTemplateV1,
+  inputs: Record<string, unknown>,
+  options: EvaluateTemplateOptions = {},
+): TemplateEvaluation {
+  const { ctx, expressionErrors } = buildEvalContext(template, inputs, options.functions, options)
+  const errors = [...expressionErrors]
+
+  const page: EvalPageInfo = { number: 1, count: getPageCount(template), section: 1, sectionNumber: 1, sectionCount: 1 }
+  const pageCtx = { ...ctx, page }
+
+  const evalExpr = (expr: string, evalCtx: EvalContext, elementId: string, field: string) => {
+    try {
+      return { value: compileExpression(expr)(evalCtx) }
+    } catch (e) {
+      errors.push(toExpressionError(e, expr).withSource({ elementId, field }))
+      return null
+    }
+  }
+  const evalTpl = (tpl: string, evalCtx: EvalContext, elementId: string, field: string) => {
+    const result = evalTemplateString(tpl, evalCtx)
+    return result.errors.map((e) => e.withSource({ elementId, field }))
+  }
+
+  for (const el of getAllElements(template)) {
+    if (el.visibleIf?.trim()) {
+      // Table visibility is decided before layout, without `page` (see DocumentPreview).
+      const visible = evalExpr(el.visibleIf, el.type === 'table' ? ctx : pageCtx, el.id, 'visibleIf')
+      if (!visible?.value) continue
+    }
+
+    if (el.type === 'text') errors.push(...evalTpl(el.textTpl, pageCtx, el.id, 'textTpl'))
+    if (el.type === 'qr') errors.push(...evalTpl(el.dataTpl ?? '', pageCtx, el.id, 'dataTpl'))
+    if (el.type !== 'table') continue
+
+    const rows = evalExpr(el.rowsExpr, ctx, el.id, 'rowsExpr')
+    if (rows && rows.value != null && !Array.isArray(rows.value)) {
+      const error = new ExpressionError('type', 'rowsExpr must evaluate to an array', { expression: el.rowsExpr })
+      errors.push(error.withSource({ elementId: el.id, field: 'rowsExpr' }))
+    }
+    if (el.continuedCaption) errors.push(...evalTpl(el.continuedCaption, pageCtx, el.id, 'continuedCaption'))
+
+    const rowValues = Array.isArray(rows?.value) ? rows.value : []
+    el.columns.forEach((col, colIdx) => {
+      const field = `columns[${colIdx}].cellTpl`
+      const seen = new Set<string>()
+      rowValues.forEach((row, rowIdx) => {
+        for (const e of evalTpl(col.cellTpl, { ...pageCtx, row }, el.id, field)) {
+          const key = `${e.source.templateOffset}|${e.code}|${e.message}`
+          if (seen.has(key)) continue
+          seen.add(key)
+          errors.push(e.withSource({ row: rowIdx }))
+        }
+      })
+    })
+    el.rowStyles?.forEach((rowStyle, styleIdx) => {
+      if (!rowStyle.when?.trim()) return
+      const field = `rowStyles[${styleIdx}].when`
+      const seen = new Set<string>()
+      rowValues.forEach((row, rowIdx) => {
+        try {
+          compileExpression(rowStyle.when)({ ...pageCtx, row })
+        } catch (err) {
+          const e = toExpressionError(err, rowStyle.when)
+          const key = `${e.code}|${e.message}`
+          if (seen.has(key)) return
+          seen.add(key)
+          errors.push(e.withSource({ elementId: el.id, field, row: rowIdx }))
+        }
+      })
+    })
+  }
+
+  return { ctx, errors }
+}
+
+/** Where an error comes from: "amountLine.textTpl (offset 12)", "items.columns[1].cellTpl (row 3)" or "vars.total". */
+export function formatErrorSource(e: ExpressionError): string {
+  const { elementId, field, variable, templateOffset, row } = e.source
+  if (variable != null) return `vars.${variable}`
+  let out = [elementId, field].filter(Boolean).join('.')
+  if (templateOffset != null) out += ` (offset ${templateOffset})`
+  if (row != null) out += ` (row ${row + 1})`
+  return out
+}
+
+export function formatExpressionError(e: ExpressionError): string {
+  return `${formatErrorSource(e)}: ${e.message}`
+}
+
+/** Thrown by strict rendering when the template has expression errors. `errors` holds the full report. */
+export class TemplateEvaluationError extends Error {
+  readonly errors: ExpressionError[]
+
+  constructor(errors: ExpressionError[]) {
+    const count = `${errors.length} expression error${errors.length === 1 ? '' : 's'}`
+    super(`Document not printed: ${count}\n${errors.map((e) => `  ${formatExpressionError(e)}`).join('\n')}`)
+    this.name = 'TemplateEvaluationError'
+    this.errors = errors
+  }
+}
+
+/** `evaluateTemplate` for strict rendering: returns the context, or throws a `TemplateEvaluationError`. */
+export function evaluateTemplateStrict(
+  template: DocumentTemplateV1,
+  inputs: Record<string, unknown>,
+  options: EvaluateTemplateOptions = {},
+): EvalContext {
+  const { ctx, errors } = evaluateTemplate(template, inputs, options)
+  if (errors.length > 0) throw new TemplateEvaluationError(errors)
+  return ctx
+}
@@ -1,5 +1,79 @@
 import jsep, { type Expression as JsepExpression } from 'jsep'
-import type { EvalContext, FunctionMap } from './types'
+import jsepArrow from '@jsep-plugin/arrow'
+import jsepObject from '@jsep-plugin/object'
+import type { EvalContext, EvalLimits, EvalLocaleOptions, FunctionMap } from './types'
+import { currencyToWords, numberToWords } from './numberWords'
+import { createLruCache } from './lru'
+
+// Object literals, e.g. formatNumber(x, 2, "en-US", { grouping: false }), and lambdas, e.g. map(xs, x => x.qty).
+jsep.plugins.register(jsepObject, jsepArrow)
+
+export type ExpressionErrorCode =
+  | 'parse'
+  | 'unsupported'
+  | 'unknownFunction'
+  | 'type'
+  | 'cycle'
+  | 'limit'
+  | 'runtime'
+
+/** Where a failing expression lives in the template. */
+export type ExpressionErrorSource = {
+  elementId?: string
+  /** Element field, e.g. "textTpl", "visibleIf" or "columns[1].cellTpl". */
+  field?: string
+  /** Variable key, for errors in `variables`. */
+  variable?: string
+  /** 0-based offset of the error within the template string (template string fields only). */
+  templateOffset?: number
+  /** Index of the first table row the error occurred in (cell templates only). */
+  row?: number
+}
+
+/**
+ * An expression that failed to parse or evaluate. `code` says why: `parse` (syntax error), `unsupported`
+ * (syntax the sandbox doesn't allow), `unknownFunction`, `type` (a value or argument of the wrong kind), `cycle`
+ * (variables that depend on each other), `limit` (see `EvalLimitError`) or `runtime` (any other failure, e.g. thrown
+ * by a helper; the original error is the `cause`).
+ */
+export class ExpressionError extends Error {
+  readonly code: ExpressionErrorCode
+  /** The expression that failed, without `{{ }}`. Filled in by the evaluator for errors thrown by helpers. */
+  expression: string
+  /** 0-based offset of the error within `expression` (0 when the evaluator can't tell). */
+  readonly offset: number
+  readonly source: ExpressionErrorSource
+
+  constructor(
+    code: ExpressionErrorCode,
+    message: string,
+    details: { expression?: string; offset?: number; source?: ExpressionErrorSource; cause?: unknown } = {},
+  ) {
+    super(message, details.cause === undefined ? undefined : { cause: details.cause })
+    this.name = 'ExpressionError'
+    this.code = code
+    this.expression = details.expression ?? ''
+    this.offset = details.offset ?? 0
+    this.source = details.source ?? {}
+  }
+
+  /** A copy of this error located in the template. */
+  withSource(source: ExpressionErrorSource): ExpressionError {
+    return new ExpressionError(this.code, this.message, {
+      expression: this.expression,
+      offset: this.offset,
+      source: { ...this.source, ...source },
+      cause: this.cause,
+    })
+  }
+}
+
+/** `err` as an `ExpressionError`; anything else becomes a 'runtime' error with `err` as its cause. */
+export function toExpressionError(err: unknown, expression = ''): ExpressionError {
+  if (err instanceof ExpressionError) return err
+  const message = err instanceof Error ? err.message : String(err)
+  return new ExpressionError('runtime', message, { expression, cause: err })
+}
 
 function isPlainObject(value: unknown): value is Record<string, unknown> {
   return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype
@@ -10,7 +84,8 @@ function safeGet(obj: unknown, prop: string): unknown {
     return undefined
   }
 
-  if (isPlainObject(obj)) return obj[prop]
+  // Own properties only: inherited ones (toString, hasOwnProperty, ...) are not data.
+  if (isPlainObject(obj)) return Object.prototype.hasOwnProperty.call(obj, prop) ? obj[prop] : undefined
   if (Array.isArray(obj)) {
     const index = Number(prop)
     if (Number.isInteger(index) && index >= 0 && index < obj.length) return obj[index]
@@ -26,6 +101,15 @@ function toNumber(value: unknown): number {
   return Number.NaN
 }
 
+// Dates parsed from date-only values (YYYY-MM-DD) are calendar dates: they are formatted as is, never shifted
+// into the time zone. Date arithmetic on them keeps the mark.
+const calendarDates = new WeakSet<Date>()
+
+function keepCalendarDate(from: Date, to: Date): Date {
+  if (calendarDates.has(from)) calendarDates.add(to)
+  return to
+}
+
 function toDate(value: unknown): Date | null {
   if (value instanceof Date) {
     const t = value.getTime()
@@ -45,7 +129,9 @@ function toDate(value: unknown): Date | null {
     if (/^\d{4}-\d{2}-\d{2}$/.test(s)) {
       const [yy, mm, dd] = s.split('-').map((p) => Number(p))
       const d = new Date(Date.UTC(yy!, (mm! - 1)!, dd!))
-      return Number.isNaN(d.getTime()) ? null : d
+      if (Number.isNaN(d.getTime())) return null
+      calendarDates.add(d)
+      return d
     }
 
     const d = new Date(s)
@@ -59,14 +145,50 @@ function pad2(n: number): string {
   return String(n).padStart(2, '0')
 }
 
-function formatDateUtc(d: Date, pattern: string): string {
-  const YYYY = String(d.getUTCFullYear())
+type DateFields = Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number>
+
+function getDateFields(d: Date, timeZone: string): DateFields {
+  if (timeZone === 'UTC' || calendarDates.has(d)) {
+    return {
+      year: d.getUTCFullYear(),
+      month: d.getUTCMonth() + 1,
+      day: d.getUTCDate(),
+      hour: d.getUTCHours(),
+      minute: d.getUTCMinutes(),
+      second: d.getUTCSeconds(),
+    }
+  }
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(d)
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value ?? 0)
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  }
+}
+
+function formatDatePattern(d: Date, pattern: string, timeZone: string): string {
+  const f = getDateFields(d, timeZone)
+  const YYYY = String(f.year)
   const YY = YYYY.slice(-2)
-  const MM = pad2(d.getUTCMonth() + 1)
-  const DD = pad2(d.getUTCDate())
-  const HH = pad2(d.getUTCHours())
-  const mm = pad2(d.getUTCMinutes())
-  const ss = pad2(d.getUTCSeconds())
+  const MM = pad2(f.month)
+  const DD = pad2(f.day)
+  const HH = pad2(f.hour)
+  const mm = pad2(f.minute)
+  const ss = pad2(f.second)
 
   return pattern
     .replaceAll('YYYY', YYYY)
@@ -78,8 +200,29 @@ function formatDateUtc(d: Date, pattern: string): string {
     .replaceAll('ss', ss)
 }
 
-function formatDateIntlUtc(d: Date, locale: string, options: Intl.DateTimeFormatOptions): string {
-  return new Intl.DateTimeFormat(locale, { ...options, timeZone: 'UTC' }).format(d)
+const DATE_STYLES = ['full', 'long', 'medium', 'short']
+
+// Keys of Intl.DateTimeFormatOptions that formatDateIntl passes through.
+const DATE_FORMAT_KEYS = [
+  'dateStyle',
+  'timeStyle',
+  'weekday',
+  'era',
+  'year',
+  'month',
+  'day',
+  'hour',
+  'minute',
+  'second',
+  'hour12',
+  'hourCycle',
+  'timeZoneName',
+  'timeZone',
+]
+
+function formatDateIntl(d: Date, locale: string, options: Intl.DateTimeFormatOptions, timeZone: string): string {
+  const tz = calendarDates.has(d) ? 'UTC' : (options.timeZone ?? timeZone)
+  return new Intl.DateTimeFormat(locale, { ...options, timeZone: tz }).format(d)
 }
 
 function daysInUtcMonth(year: number, month0: number): number {
@@ -102,7 +245,7 @@ function addMonthsUtc(date: Date, months: number): Date {
 
   const maxDay = daysInUtcMonth(nextY, nextM)
   const clampedDay = Math.min(day, maxDay)
-  return new Date(Date.UTC(nextY, nextM, clampedDay, hh, mi, ss, ms))
+  return keepCalendarDate(date, new Date(Date.UTC(nextY, nextM, clampedDay, hh, mi, ss, ms)))
 }
 
 function addYearsUtc(date: Date, years: number): Date {
@@ -116,7 +259,112 @@ function addYearsUtc(date: Date, years: number): Date {
 
   const maxDay = daysInUtcMonth(y, m)
   const clampedDay = Math.min(day, maxDay)
-  return new Date(Date.UTC(y, m, clampedDay, hh, mi, ss, ms))
+  return keepCalendarDate(date, new Date(Date.UTC(y, m, clampedDay, hh, mi, ss, ms)))
+}
+
+const DEFAULT_LOCALE = 'en-US'
+const DEFAULT_TIME_ZONE = 'UTC'
+
+const ROUNDING_MODES = [
+  'ceil',
+  'floor',
+  'expand',
+  'trunc',
+  'halfCeil',
+  'halfFloor',
+  'halfExpand',
+  'halfTrunc',
+  'halfEven',
+]
+
+// `roundingMode` is newer than the ES2022 lib typings.
+type NumberFormatOptions = Intl.NumberFormatOptions & { roundingMode?: string }
+
+/** Maps the `{ grouping, rounding, minDecimals, maxDecimals }` argument of the format* helpers to Intl options. */
+function toNumberFormatOptions(options: unknown): NumberFormatOptions {
+  if (!isPlainObject(options)) return {}
+  const out: NumberFormatOptions = {}
+  if (typeof options.grouping === 'boolean') out.useGrouping = options.grouping
+  if (options.rounding != null) {
+    const mode = String(options.rounding)
+    if (!ROUNDING_MODES.includes(mode)) throw new ExpressionError('type', `Unknown rounding mode: ${mode}`)
+    out.roundingMode = mode
+  }
+  const min = toNumber(options.minDecimals)
+  const max = toNumber(options.maxDecimals)
+  if (Number.isFinite(min)) out.minimumFractionDigits = min
+  if (Number.isFinite(max)) out.maximumFractionDigits = max
+  return out
+}
+
+const numberFormatCache = new Map<string, Intl.NumberFormat>()
+
+function pickLocale(locale: unknown, fallback: string): string {
+  return typeof locale === 'string' && locale.trim() ? locale.trim() : fallback
+}
+
+function formatWithIntl(value: unknown, locale: string, options: NumberFormatOptions): string {
+  const n = toNumber(value)
+  if (!Number.isFinite(n)) return ''
+  const key = `${locale}|${JSON.stringify(options)}`
+  let fmt = numberFormatCache.get(key)
+  if (!fmt) {
+    // Invalid locales/currencies throw a RangeError, which surfaces as an expression error.
+    fmt = new Intl.NumberFormat(locale, options)
+    if (numberFormatCache.size > 200) numberFormatCache.clear()
+    numberFormatCache.set(key, fmt)
+  }
+  return fmt.format(n)
+}
+
+function fixedDecimals(decimals: unknown): NumberFormatOptions {
+  const d = toNumber(decimals)
+  if (decimals == null || !Number.isFinite(d)) return {}
+  return { minimumFractionDigits: d, maximumFractionDigits: d }
+}
+
+function toList(value: unknown): unknown[] {
+  if (!Array.isArray(value)) return []
+  checkArrayLength(value.length)
+  return value
+}
+
+type Selector = (item: unknown, index: number) => unknown
+
+/** A lambda (`x => x.amount`), a property name (`"amount"`) or, when `optional`, nothing (the item itself). */
+function toSelector(selector: unknown, fnName: string, optional = false): Selector {
+  if (typeof selector === 'function') return (item, index) => selector(item, index)
+  if (typeof selector === 'string') return (item) => safeGet(item, selector)
+  if (selector == null && optional) return (item) => item
+  throw new ExpressionError('type', `${fnName}: expected a lambda (x => ...) or a property name`)
+}
+
+function numericValues(list: unknown[], select: Selector): number[] {
+  const out: number[] = []
+  list.forEach((item, index) => {
+    const n = toNumber(select(item, index))
+    if (Number.isFinite(n)) out.push(n)
+  })
+  return out
+}
+
+function findItem(list: unknown[], predicate: unknown, fnName: string, fromEnd: boolean): unknown {
+  const test = toSelector(predicate, fnName, true)
+  const matches = (index: number) => predicate == null || !!test(list[index], index)
+  if (fromEnd) {
+    for (let i = list.length - 1; i >= 0; i -= 1) if (matches(i)) return list[i]
+  } else {
+    for (let i = 0; i < list.length; i += 1) if (matches(i)) return list[i]
+  }
+  return null
+}
+
+// Numbers and dates compare by value, everything else as locale-aware strings. null/undefined sort last.
+function compareValues(a: unknown, b: unknown, locale: string): number {
+  if (a == null || b == null) return a == null ? (b == null ? 0 : 1) : -1
+  if (typeof a === 'number' && typeof b === 'number') return a - b
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime()
+  return String(a).localeCompare(String(b), locale)
 }
 
 export type FunctionDoc = {
@@ -137,13 +385,13 @@ export const FUNCTION_DOCS: Record<string, FunctionDoc> = {
     signature: 'upper(value)',
     description: 'Converts a value to a string and uppercases it.',
     examples: ['upper(inputs.borrowerName)', 'upper("hello")'],
-    notes: ['null/undefined become an empty string.'],
+    notes: ['null/undefined become an empty string.', "Uses the template locale's case rules (e.g. Turkish i)."],
   },
   lower: {
     signature: 'lower(value)',
     description: 'Converts a value to a string and lowercases it.',
     examples: ['lower(inputs.state)', 'lower("HELLO")'],
-    notes: ['null/undefined become an empty string.'],
+    notes: ['null/undefined become an empty string.', "Uses the template locale's case rules."],
   },
   trim: {
     signature: 'trim(value)',
@@ -223,6 +471,73 @@ export const FUNCTION_DOCS: Record<string, FunctionDoc> = {
     examples: ['json(inputs)', 'json(row)'],
     notes: ['Equivalent to JSON.stringify.'],
   },
+  map: {
+    signature: 'map(list, x => ...)',
+    description: 'Returns a new array with the lambda applied to every item.',
+    examples: [
+      'map(inputs.items, x => x.qty * x.price)',
+      'map(inputs.payments, (p, i) => concat(i + 1, ". ", p.date))',
+    ],
+    notes: ['The lambda receives the item and its index.', 'Instead of a lambda, a property name picks that field.'],
+  },
+  filter: {
+    signature: 'filter(list, x => ...)',
+    description: 'Returns the items for which the lambda is truthy.',
+    examples: ['filter(inputs.items, x => x.qty > 0)', 'filter(inputs.fees, "included")'],
+  },
+  sum: {
+    signature: 'sum(list, x => ...?)',
+    description: 'Adds up the items, or the values the lambda returns for them.',
+    examples: ['sum(inputs.amounts)', 'sum(inputs.items, x => x.qty * x.price)', 'sum(row.lines, "amount")'],
+    notes: ['Values that are not numbers are ignored; an empty list sums to 0.'],
+  },
+  count: {
+    signature: 'count(list, x => ...?)',
+    description: 'Counts the items, or only those for which the lambda is truthy.',
+    examples: ['count(inputs.items)', 'count(inputs.items, x => x.taxable)'],
+  },
+  avg: {
+    signature: 'avg(list, x => ...?)',
+    description: 'Average of the numeric items (or lambda results).',
+    examples: ['avg(inputs.scores)', 'avg(inputs.items, x => x.price)'],
+    notes: ['Values that are not numbers are ignored; returns null when there are none.'],
+  },
+  join: {
+    signature: 'join(list, separator?)',
+    description: 'Converts the items to strings and joins them.',
+    examples: ['join(inputs.tags, ", ")', 'join(map(inputs.owners, x => x.name), " and ")'],
+    notes: ['separator defaults to ", ".', 'null/undefined items become an empty string.'],
+  },
+  sortBy: {
+    signature: 'sortBy(list, x => ..., direction?)',
+    description: 'Returns a sorted copy of the list, ordered by the value the lambda returns.',
+    examples: ['sortBy(inputs.items, x => x.date)', 'sortBy(inputs.items, "amount", "desc")'],
+    notes: [
+      'direction is "asc" (default) or "desc".',
+      'Numbers and dates compare by value, other values as text in the template locale; empty values go last.',
+    ],
+  },
+  groupBy: {
+    signature: 'groupBy(list, x => ...)',
+    description: 'Groups the items by the value the lambda returns, as an array of { key, items }.',
+    examples: [
+      'groupBy(inputs.items, x => x.category)',
+      'map(groupBy(inputs.items, "category"), g => concat(g.key, ": ", sum(g.items, "amount")))',
+    ],
+    notes: ['Groups keep the order in which their keys first appear.', 'Works as a table rowsExpr.'],
+  },
+  first: {
+    signature: 'first(list, x => ...?)',
+    description: 'Returns the first item, or the first item for which the lambda is truthy.',
+    examples: ['first(inputs.payments)', 'first(inputs.owners, x => x.primary)'],
+    notes: ['Returns null when there is no such item.'],
+  },
+  last: {
+    signature: 'last(list, x => ...?)',
+    description: 'Returns the last item, or the last item for which the lambda is truthy.',
+    examples: ['last(inputs.payments)', 'last(inputs.payments, x => x.paid)'],
+    notes: ['Returns null when there is no such item.'],
+  },
   now: {
     signature: 'now()',
     description: 'Returns the current date/time as a Date object.',
@@ -248,7 +563,7 @@ export const FUNCTION_DOCS: Record<string, FunctionDoc> = {
   },
   formatDate: {
     signature: 'formatDate(date, pattern?)',
-    description: 'Formats a date using a simple token pattern (UTC).',
+    description: "Formats a date using a simple token pattern (in the template's time zone).",
     examples: [
       'formatDate(inputs.startDate, "YYYY-MM-DD")',
       'formatDate(now(), "YYYY-MM-DD HH:mm")',
@@ -258,20 +573,128 @@ export const FUNCTION_DOCS: Record<string, FunctionDoc> = {
     notes: [
       'Supported tokens: YYYY, YY, MM, DD, HH, mm, ss.',
       'Also supports presets: ES_LONG (e.g. "01 de noviembre de 2026"), ES_LONG_DEL (e.g. "01 de noviembre del 2026").',
-      'Date inputs (type=date) are YYYY-MM-DD strings.',
+      'Date inputs (type=date) are YYYY-MM-DD strings. They are calendar dates and never shift with the time zone.',
+    ],
+  },
+  formatDateIntl: {
+    signature: 'formatDateIntl(date, options?, locale?)',
+    description: 'Formats a date for a locale with Intl.DateTimeFormat (month names, word order, etc.).',
+    examples: [
+      'formatDateIntl(inputs.startDate)',
+      'formatDateIntl(inputs.startDate, "full", "pt-BR")',
+      'formatDateIntl(inputs.startDate, { day: "numeric", month: "long", year: "numeric" }, "fr-FR")',
+      'formatDateIntl(now(), { dateStyle: "medium", timeStyle: "short" })',
+    ],
+    notes: [
+      'options is a style ("full", "long", "medium", "short") or an object with Intl.DateTimeFormat options ' +
+        '(dateStyle, timeStyle, weekday, year, month, day, hour, minute, second, hour12, timeZoneName, timeZone).',
+      "Defaults to the long date style, the template's locale and its time zone.",
+    ],
+  },
+  formatNumber: {
+    signature: 'formatNumber(value, decimals?, locale?, options?)',
+    description: 'Formats a number with locale-aware grouping and decimal separators.',
+    examples: [
+      'formatNumber(inputs.amount)',
+      'formatNumber(inputs.amount, 2)',
+      'formatNumber(inputs.amount, 2, "de-DE")',
+      'formatNumber(inputs.rate, null, "en-US", { maxDecimals: 4, grouping: false })',
+    ],
+    notes: [
+      'decimals fixes the number of fraction digits; omit it (or pass null) to keep up to 3.',
+      'locale defaults to the template locale ("en-US" if unset).',
+      'options: grouping (true/false), rounding ("halfExpand", "halfEven", "trunc", "ceil", "floor", ...), ' +
+        'minDecimals, maxDecimals.',
+      'Values that are not numbers (or numeric strings) produce an empty string.',
+    ],
+  },
+  formatCurrency: {
+    signature: 'formatCurrency(value, currency, locale?, options?)',
+    description: 'Formats a number as an amount of money in the given ISO 4217 currency.',
+    examples: [
+      'formatCurrency(inputs.amount, "USD")',
+      'formatCurrency(inputs.amount, "EUR", "es-ES")',
+      'formatCurrency(inputs.amount, "MXN", "es-MX", { rounding: "trunc" })',
+    ],
+    notes: [
+      'Uses the currency\'s usual number of decimals (e.g. 2 for USD, 0 for JPY) unless options say otherwise.',
+      'locale defaults to the template locale; options are the same as for formatNumber.',
+    ],
+  },
+  formatPercent: {
+    signature: 'formatPercent(value, decimals?, locale?, options?)',
+    description: 'Formats a ratio as a percentage (0.125 becomes "12.5%" with 1 decimal).',
+    examples: ['formatPercent(inputs.rate)', 'formatPercent(inputs.rate / 100, 2)', 'formatPercent(0.5, 0, "fr-FR")'],
+    notes: [
+      'The value is multiplied by 100; divide first if it is already a percentage.',
+      'decimals defaults to 0; options are the same as for formatNumber.',
+    ],
+  },
+  numberToWords: {
+    signature: 'numberToWords(value, locale?, options?)',
+    description: 'Spells out a number in English or Spanish.',
+    examples: [
+      'numberToWords(inputs.term)',
+      'numberToWords(1021, "es")',
+      'numberToWords(21, "es", { apocope: true })',
+      'numberToWords(200, "es", { feminine: true, case: "upper" })',
+    ],
+    notes: [
+      'Supported languages: en, es (locale defaults to the template locale).',
+      'Fractional digits are read one by one: 2.5 → "two point five".',
+      'options: case ("lower", "upper", "sentence"); Spanish only: feminine ("una", "doscientas") and ' +
+        'apocope ("un", "veintiún" before a noun).',
+      'Values must be below 10^15.',
+    ],
+  },
+  currencyToWords: {
+    signature: 'currencyToWords(value, currency, locale?, options?)',
+    description: 'Writes an amount of money in words, as on checks and promissory notes.',
+    examples: [
+      'currencyToWords(inputs.amount, "USD")',
+      'currencyToWords(inputs.amount, "MXN", "es", { case: "upper" })',
+      'currencyToWords(inputs.amount, "EUR", "es-ES", { cents: "words" })',
+    ],
+    notes: [
+      'Default output: "two hundred fifty thousand dollars and 00/100" / "doscientos cincuenta mil pesos 00/100".',
+      'The amount is rounded to the currency\'s minor unit; cents: "words" spells the cents out instead.',
+      'Supported languages: en, es. Unknown currencies use their ISO code as the unit name.',
     ],
   },
 }
 
-export function defaultFunctions(): FunctionMap {
+/**
+ * The built-in helpers. `defaults` sets the locale and time zone used when a call doesn't pass its own
+ * (`buildEvalContext` fills it from the template).
+ */
+export function defaultFunctions(defaults: EvalLocaleOptions = {}): FunctionMap {
+  const locale = pickLocale(defaults.locale, DEFAULT_LOCALE)
+  const timeZone = defaults.timeZone?.trim() || DEFAULT_TIME_ZONE
+
   return {
-    concat: (...args) => args.map((a) => (a == null ? '' : String(a))).join(''),
-    upper: (s) => (s == null ? '' : String(s).toUpperCase()),
-    lower: (s) => (s == null ? '' : String(s).toLowerCase()),
+    concat: (...args) => {
+      const parts = args.map((a) => (a == null ? '' : String(a)))
+      checkStringLength(parts.reduce((n, p) => n + p.length, 0))
+      return parts.join('')
+    },
+    upper: (s) => (s == null ? '' : String(s).toLocaleUpperCase(locale)),
+    lower: (s) => (s == null ? '' : String(s).toLocaleLowerCase(locale)),
     trim: (s) => (s == null ? '' : String(s).trim()),
-    padStart: (s, len, ch) => String(s ?? '').padStart(Number(len ?? 0), String(ch ?? ' ')),
-    padEnd: (s, len, ch) => String(s ?? '').padEnd(Number(len ?? 0), String(ch ?? ' ')),
-    replace: (s, search, repl) => String(s ?? '').replace(String(search ?? ''), String(repl ?? '')),
+    padStart: (s, len, ch) => {
+      checkStringLength(Number(len ?? 0))
+      return String(s ?? '').padStart(Number(len ?? 0), String(ch ?? ' '))
+    },
+    padEnd: (s, len, ch) => {
+      checkStringLength(Number(len ?? 0))
+      return String(s ?? '').padEnd(Number(len ?? 0), String(ch ?? ' '))
+    },
+    replace: (s, search, repl) => {
+      const str = String(s ?? '')
+      const searchStr = String(search ?? '')
+      const replStr = String(repl ?? '')
+      if (str.includes(searchStr)) checkStringLength(str.length - searchStr.length + replStr.length)
+      return str.replace(searchStr, replStr)
+    },
     substr: (s, start, len) => {
       const str = String(s ?? '')
       const st = Number(start ?? 0)
@@ -285,7 +708,67 @@ export function defaultFunctions(): FunctionMap {
     min: (...nums) => Math.min(...nums.map((n) => toNumber(n))),
     max: (...nums) => Math.max(...nums.map((n) => toNumber(n))),
     coalesce: (...vals) => vals.find((v) => v !== null && v !== undefined),
-    json: (v) => JSON.stringify(v),
+    json: (v) => {
+      const out = JSON.stringify(v)
+      if (out !== undefined) checkStringLength(out.length)
+      return out
+    },
+
+    map: (list, fn) => {
+      const select = toSelector(fn, 'map')
+      return toList(list).map((item, index) => select(item, index))
+    },
+    filter: (list, fn) => {
+      const test = toSelector(fn, 'filter')
+      return toList(list).filter((item, index) => !!test(item, index))
+    },
+    sum: (list, fn) => numericValues(toList(list), toSelector(fn, 'sum', true)).reduce((a, b) => a + b, 0),
+    count: (list, fn) => {
+      const items = toList(list)
+      if (fn == null) return items.length
+      const test = toSelector(fn, 'count')
+      return items.filter((item, index) => !!test(item, index)).length
+    },
+    avg: (list, fn) => {
+      const nums = numericValues(toList(list), toSelector(fn, 'avg', true))
+      return nums.length ? nums.reduce((a, b) => a + b, 0) / nums.length : null
+    },
+    join: (list, sep) => {
+      const parts = toList(list).map((v) => (v == null ? '' : String(v)))
+      const separator = sep == null ? ', ' : String(sep)
+      checkStringLength(parts.reduce((n, p) => n + p.length, 0) + separator.length * Math.max(0, parts.length - 1))
+      return parts.join(separator)
+    },
+    sortBy: (list, fn, direction) => {
+      const select = toSelector(fn, 'sortBy')
+      const dir = direction == null ? 'asc' : String(direction).toLowerCase()
+      if (dir !== 'asc' && dir !== 'desc') {
+        throw new ExpressionError('type', 'sortBy: direction must be "asc" or "desc"')
+      }
+      const keyed = toList(list).map((item, index) => ({ item, key: select(item, index) }))
+      keyed.sort((a, b) => {
+        // Empty keys stay last in both directions.
+        if (a.key == null || b.key == null) return compareValues(a.key, b.key, locale)
+        const c = compareValues(a.key, b.key, locale)
+        return dir === 'desc' ? -c : c
+      })
+      return keyed.map((k) => k.item)
+    },
+    groupBy: (list, fn) => {
+      const select = toSelector(fn, 'groupBy')
+      const groups = new Map<unknown, { key: unknown; items: unknown[] }>()
+      toList(list).forEach((item, index) => {
+        const key = select(item, index)
+        // Dates and other objects group by their string form.
+        const id = key !== null && typeof key === 'object' ? String(key) : key
+        const group = groups.get(id)
+        if (group) group.items.push(item)
+        else groups.set(id, { key, items: [item] })
+      })
+      return [...groups.values()]
+    },
+    first: (list, fn) => findItem(toList(list), fn, 'first', false),
+    last: (list, fn) => findItem(toList(list), fn, 'last', true),
 
     now: () => new Date(),
     addDays: (date, days) => {
@@ -293,7 +776,7 @@ export function defaultFunctions(): FunctionMap {
       if (!d) return null
       const n = toNumber(days)
       if (!Number.isFinite(n)) return null
-      return new Date(d.getTime() + n * 24 * 60 * 60 * 1000)
+      return keepCalendarDate(d, new Date(d.getTime() + n * 24 * 60 * 60 * 1000))
     },
     addMonths: (date, months) => {
       const d = toDate(date)
@@ -318,7 +801,7 @@ export function defaultFunctions(): FunctionMap {
       const preset = raw.toUpperCase()
       if (preset === 'ES_LONG' || preset === 'ES_LONG_DEL') {
         // Example: "01 de noviembre de 2026" (no hardcoded month names)
-        const base = formatDateIntlUtc(d, 'es', { day: '2-digit', month: 'long', year: 'numeric' })
+        const base = formatDateIntl(d, 'es', { day: '2-digit', month: 'long', year: 'numeric' }, timeZone)
         if (preset === 'ES_LONG_DEL') {
           // Convert trailing "de 2026" into "del 2026" without touching month names.
           return base.replace(/\sde\s(\d{4})$/, ' del $1')
@@ -326,21 +809,221 @@ export function defaultFunctions(): FunctionMap {
         return base
       }
 
-      return formatDateUtc(d, p)
+      return formatDatePattern(d, p, timeZone)
     },
+    formatDateIntl: (date, options, loc) => {
+      const d = toDate(date)
+      if (!d) return ''
+      const opts: Record<string, unknown> = {}
+      if (typeof options === 'string') {
+        if (!DATE_STYLES.includes(options)) throw new ExpressionError('type', `Unknown date style: ${options}`)
+        opts.dateStyle = options
+      } else if (isPlainObject(options)) {
+        for (const key of DATE_FORMAT_KEYS) if (options[key] !== undefined) opts[key] = options[key]
+      } else {
+        opts.dateStyle = 'long'
+      }
+      return formatDateIntl(d, pickLocale(loc, locale), opts as Intl.DateTimeFormatOptions, timeZone)
+    },
+
+    formatNumber: (value, decimals, loc, options) =>
+      formatWithIntl(value, pickLocale(loc, locale), {
+        ...fixedDecimals(decimals),
+        ...toNumberFormatOptions(options),
+      }),
+    formatCurrency: (value, currency, loc, options) =>
+      formatWithIntl(value, pickLocale(loc, locale), {
+        style: 'currency',
+        currency: String(currency ?? 'USD').toUpperCase(),
+        ...toNumberFormatOptions(options),
+      }),
+    formatPercent: (value, decimals, loc, options) =>
+      formatWithIntl(value, pickLocale(loc, locale), {
+        style: 'percent',
+        ...fixedDecimals(decimals),
+        ...toNumberFormatOptions(options),
+      }),
+    numberToWords: (value, loc, options) => {
+      const n = toNumber(value)
+      if (!Number.isFinite(n)) return ''
+      return numberToWords(n, pickLocale(loc, locale), isPlainObject(options) ? options : {})
+    },
+    currencyToWords: (value, currency, loc, options) => {
+      const n = toNumber(value)
+      if (!Number.isFinite(n)) return ''
+      const opts = isPlainObject(options) ? options : {}
+      return currencyToWords(n, String(currency ?? 'USD'), pickLocale(loc, locale), opts)
+    },
+  }
+}
+
+// Lambda parameters (x => ...) live in a scope that shadows functions but not the names below.
+type Locals = ReadonlyMap<string, unknown>
+
+const RESERVED_NAMES = new Set(['true', 'false', 'null', 'undefined', 'inputs', 'constants', 'vars', 'row', 'page'])
+
+// The built-in map only depends on the locale and time zone, so one instance per combination is shared by every
+// evaluation that has neither its own functions nor `ctx.functions`.
+const defaultFunctionsCache = createLruCache<FunctionMap>(16)
+
+function getDefaultFunctions(defaults: EvalLocaleOptions): FunctionMap {
+  const key = `${defaults.locale ?? ''}|${defaults.timeZone ?? ''}`
+  return defaultFunctionsCache.get(key, () => defaultFunctions(defaults))
+}
+
+/** An expression parsed once and ready to run against any context. */
+export type CompiledExpression = (ctx: EvalContext, functions?: FunctionMap) => unknown
+
+type CompileResult = { ast: JsepExpression; run: CompiledExpression } | { error: unknown }
+
+export const DEFAULT_EVAL_LIMITS: Readonly<EvalLimits> = {
+  maxAstNodes: 1000,
+  maxSteps: 100_000,
+  maxStringLength: 1_000_000,
+  maxArrayLength: 50_000,
+  maxDepth: 100,
+  timeoutMs: 1000,
+}
+
+/** Thrown when an evaluation exceeds one of its `EvalLimits`; `code` is 'limit'. */
+export class EvalLimitError extends ExpressionError {
+  readonly limit: keyof EvalLimits
+
+  constructor(limit: keyof EvalLimits, message: string) {
+    super('limit', message)
+    this.name = 'EvalLimitError'
+    this.limit = limit
+  }
+}
+
+/** State of one evaluation: what it runs against and how much of its budget it has used. */
+type EvalRun = {
+  source: string
+  ctx: EvalContext
+  functions: FunctionMap
+  limits: EvalLimits
+  steps: number
+  depth: number
+  deadline: number
+}
+
+// The run in progress, so the built-in helpers can check sizes against its limits. Evaluation is synchronous;
+// nested evaluations (e.g. from a custom function) save and restore it.
+let activeRun: EvalRun | undefined
+
+function checkStringLength(length: number): void {
+  const max = (activeRun?.limits ?? DEFAULT_EVAL_LIMITS).maxStringLength
+  if (length > max) {
+    throw new EvalLimitError('maxStringLength', `String of ${length} characters exceeds the limit of ${max}`)
+  }
+}
+
+function checkArrayLength(length: number): void {
+  const max = (activeRun?.limits ?? DEFAULT_EVAL_LIMITS).maxArrayLength
+  if (length > max) throw new EvalLimitError('maxArrayLength', `Array of ${length} items exceeds the limit of ${max}`)
+}
+
+function countNodes(node: unknown): number {
+  if (!node || typeof node !== 'object') return 0
+  if (Array.isArray(node)) return node.reduce((n: number, child) => n + countNodes(child), 0)
+  let n = typeof (node as { type?: unknown }).type === 'string' ? 1 : 0
+  for (const value of Object.values(node)) if (value && typeof value === 'object') n += countNodes(value)
+  return n
+}
+
+function runCompiled(
+  source: string,
+  ast: JsepExpression,
+  nodeCount: number,
+  ctx: EvalContext,
+  functions: FunctionMap,
+): unknown {
+  const limits = ctx.limits ? { ...DEFAULT_EVAL_LIMITS, ...ctx.limits } : DEFAULT_EVAL_LIMITS
+  if (nodeCount > limits.maxAstNodes) {
+    const message = `Expression has ${nodeCount} nodes, more than the limit of ${limits.maxAstNodes}`
+    throw new EvalLimitError('maxAstNodes', message)
+  }
+
+  const run: EvalRun = { source, ctx, functions, limits, steps: 0, depth: 0, deadline: Date.now() + limits.timeoutMs }
+  const previous = activeRun
+  activeRun = run
+  try {
+    return evalAst(ast, run)
+  } catch (e) {
+    const error = toExpressionError(e, source)
+    if (!error.expression) error.expression = source
+    throw error
+  } finally {
+    activeRun = previous
   }
 }
 
+export const EXPRESSION_CACHE_SIZE = 2000
+
+// Keyed by source text. Parse errors are cached too, so a broken cell expression isn't re-parsed for every row.
+const expressionCache = createLruCache<CompileResult>(EXPRESSION_CACHE_SIZE)
+
+function compile(expr: string): CompileResult {
+  return expressionCache.get(expr, () => {
+    let ast: JsepExpression
+    try {
+      ast = jsep(expr)
+    } catch (e) {
+      // jsep errors carry the position of the problem in `index`.
+      const index = (e as { index?: unknown }).index
+      const offset = typeof index === 'number' ? Math.min(index, expr.length) : 0
+      const message = e instanceof Error ? e.message : String(e)
+      return { error: new ExpressionError('parse', message, { expression: expr, offset, cause: e }) }
+    }
+    const nodeCount = countNodes(ast)
+    const run: CompiledExpression = (ctx, functions) =>
+      runCompiled(expr, ast, nodeCount, ctx, functions ?? ctx.functions ?? getDefaultFunctions(ctx))
+    return { ast, run }
+  })
+}
+
+/** Parses an expression (cached). The returned AST is shared and must not be modified. */
 export function parseExpression(expr: string): JsepExpression {
-  return jsep(expr)
+  const result = compile(expr)
+  if ('error' in result) throw result.error
+  return result.ast
+}
+
+/** Parses `expr` once and returns a reusable evaluator. Throws on syntax errors. */
+export function compileExpression(expr: string): CompiledExpression {
+  const result = compile(expr)
+  if ('error' in result) throw result.error
+  return result.run
 }
 
 export function evalExpression(expr: string, ctx: EvalContext, functions?: FunctionMap): unknown {
-  const ast = parseExpression(expr)
-  return evalAst(ast, ctx, functions ?? defaultFunctions())
+  return compileExpression(expr)(ctx, functions)
+}
+
+function evalAst(node: JsepExpression, run: EvalRun, locals?: Locals): unknown {
+  const { limits } = run
+  run.steps += 1
+  if (run.steps > limits.maxSteps) {
+    throw new EvalLimitError('maxSteps', `Evaluation exceeded the limit of ${limits.maxSteps} steps`)
+  }
+  // Reading the clock on every node would dominate the cost of cheap expressions.
+  if (run.steps % 256 === 0 && Date.now() > run.deadline) {
+    throw new EvalLimitError('timeoutMs', `Evaluation exceeded the time limit of ${limits.timeoutMs} ms`)
+  }
+  if (run.depth >= limits.maxDepth) {
+    throw new EvalLimitError('maxDepth', `Evaluation exceeded the nesting limit of ${limits.maxDepth}`)
+  }
+
+  run.depth += 1
+  try {
+    return evalNode(node, run, locals)
+  } finally {
+    run.depth -= 1
+  }
 }
 
-function evalAst(node: JsepExpression, ctx: EvalContext, functions: FunctionMap): unknown {
+function evalNode(node: JsepExpression, run: EvalRun, locals: Locals | undefined): unknown {
+  const { ctx, functions } = run
   switch (node.type) {
     case 'Literal':
       return (node as any).value
@@ -352,10 +1035,13 @@ function evalAst(node: JsepExpression, ctx: EvalContext, functions: FunctionMap)
       if (name === 'null') return null
       if (name === 'undefined') return undefined
 
+      if (locals?.has(name)) return locals.get(name)
+
       if (name === 'inputs') return ctx.inputs
       if (name === 'constants') return ctx.constants
       if (name === 'vars') return ctx.vars
       if (name === 'row') return ctx.row
+      if (name === 'page') return ctx.page
 
       if (Object.prototype.hasOwnProperty.call(functions, name)) return functions[name]
 
@@ -364,7 +1050,7 @@ function evalAst(node: JsepExpression, ctx: EvalContext, functions: FunctionMap)
 
     case 'UnaryExpression': {
       const { operator, argument } = node as any
-      const arg = evalAst(argument, ctx, functions)
+      const arg = evalAst(argument, run, locals)
       switch (operator) {
         case '!':
           return !arg
@@ -373,17 +1059,22 @@ function evalAst(node: JsepExpression, ctx: EvalContext, functions: FunctionMap)
         case '-':
           return -toNumber(arg)
         default:
-          throw new Error(`Unsupported unary operator: ${operator}`)
+          throw new ExpressionError('unsupported', `Unsupported unary operator: ${operator}`)
       }
     }
 
     case 'BinaryExpression': {
       const { operator, left, right } = node as any
-      const l = evalAst(left, ctx, functions)
-      const r = evalAst(right, ctx, functions)
+      // jsep parses ||, && and ?? as binary expressions; they must not evaluate `right` eagerly.
+      if (LOGICAL_OPERATORS.has(operator)) return evalLogical(operator, left, right, run, locals)
+      const l = evalAst(left, run, locals)
+      const r = evalAst(right, run, locals)
       switch (operator) {
-        case '+':
-          return (l as any) + (r as any)
+        case '+': {
+          const sum = (l as any) + (r as any)
+          if (typeof sum === 'string') checkStringLength(sum.length)
+          return sum
+        }
         case '-':
           return toNumber(l) - toNumber(r)
         case '*':
@@ -409,66 +1100,120 @@ function evalAst(node: JsepExpression, ctx: EvalContext, functions: FunctionMap)
         case '>=':
           return (l as any) >= (r as any)
         default:
-          throw new Error(`Unsupported binary operator: ${operator}`)
+          throw new ExpressionError('unsupported', `Unsupported binary operator: ${operator}`)
       }
     }
 
     case 'LogicalExpression': {
       const { operator, left, right } = node as any
-      if (operator === '&&') {
-        const l = evalAst(left, ctx, functions)
-        return l ? evalAst(right, ctx, functions) : l
-      }
-      if (operator === '||') {
-        const l = evalAst(left, ctx, functions)
-        return l ? l : evalAst(right, ctx, functions)
-      }
-      throw new Error(`Unsupported logical operator: ${operator}`)
+      return evalLogical(operator, left, right, run, locals)
     }
 
     case 'ConditionalExpression': {
       const { test, consequent, alternate } = node as any
-      return evalAst(test, ctx, functions) ? evalAst(consequent, ctx, functions) : evalAst(alternate, ctx, functions)
+      return evalAst(test, run, locals) ? evalAst(consequent, run, locals) : evalAst(alternate, run, locals)
     }
 
     case 'MemberExpression': {
-      const { object, property, computed } = node as any
-      if (computed) throw new Error('Computed member access is not allowed')
+      const { object, property, computed, optional } = node as any
+      const objVal = evalAst(object, run, locals)
+      if (optional && objVal == null) return undefined
+      if (!computed) return safeGet(objVal, property?.name as string)
 
-      const objVal = evalAst(object, ctx, functions)
-      const propName = property?.name as string
-      return safeGet(objVal, propName)
+      const key = toPropertyKey(evalAst(property, run, locals))
+      return key === undefined ? undefined : safeGet(objVal, key)
     }
 
     case 'CallExpression': {
       const { callee, arguments: args } = node as any
-      if (callee.type !== 'Identifier') throw new Error('Only direct function calls are allowed')
+      if (callee.type !== 'Identifier') {
+        throw new ExpressionError('unsupported', 'Only direct function calls are allowed')
+      }
 
-      const fn = evalAst(callee, ctx, functions)
-      if (typeof fn !== 'function') throw new Error(`Unknown function: ${(callee as any).name}`)
+      const fn = evalAst(callee, run, locals)
+      if ((node as any).optional && fn == null) return undefined
+      if (typeof fn !== 'function') {
+        const name = (callee as any).name as string
+        const offset = findCall(run.source, name)
+        throw new ExpressionError('unknownFunction', `Unknown function: ${name}`, { expression: run.source, offset })
+      }
 
-      const evaluatedArgs = (args as JsepExpression[]).map((a) => evalAst(a, ctx, functions))
+      const evaluatedArgs = (args as JsepExpression[]).map((a) => evalAst(a, run, locals))
       return fn(...evaluatedArgs)
     }
 
     case 'ArrayExpression': {
       const { elements } = node as any
-      return (elements as JsepExpression[]).map((e) => evalAst(e, ctx, functions))
+      return (elements as JsepExpression[]).map((e) => evalAst(e, run, locals))
     }
 
     case 'ObjectExpression': {
       const { properties } = node as any
       const out: Record<string, unknown> = {}
       for (const p of properties as any[]) {
-        if (p.type !== 'Property') throw new Error('Unsupported object property type')
-        if (p.computed) throw new Error('Computed object keys are not allowed')
+        if (p.type !== 'Property') throw new ExpressionError('unsupported', 'Unsupported object property type')
+        if (p.computed) throw new ExpressionError('unsupported', 'Computed object keys are not allowed')
         const key = p.key.type === 'Identifier' ? p.key.name : String(p.key.value)
-        out[key] = evalAst(p.value, ctx, functions)
+        out[key] = evalAst(p.value, run, locals)
       }
       return out
     }
 
+    case 'ArrowFunctionExpression': {
+      const { params, body } = node as any
+      const names = ((params ?? []) as JsepExpression[]).map((p) => {
+        const name = p.type === 'Identifier' ? ((p as any).name as string) : ''
+        if (!name) throw new ExpressionError('unsupported', 'Lambda parameters must be plain names')
+        if (RESERVED_NAMES.has(name)) {
+          throw new ExpressionError('unsupported', `'${name}' cannot be used as a lambda parameter`)
+        }
+        return name
+      })
+      return (...args: unknown[]) => {
+        const scope = new Map(locals)
+        names.forEach((name, i) => scope.set(name, args[i]))
+        return evalAst(body, run, scope)
+      }
+    }
+
     default:
-      throw new Error(`Unsupported expression node type: ${(node as any).type}`)
+      throw new ExpressionError('unsupported', `Unsupported expression node type: ${(node as any).type}`)
   }
 }
+
+const LOGICAL_OPERATORS = new Set(['&&', '||', '??'])
+
+function evalLogical(
+  operator: string,
+  left: JsepExpression,
+  right: JsepExpression,
+  run: EvalRun,
+  locals: Locals | undefined,
+): unknown {
+  const l = evalAst(left, run, locals)
+  switch (operator) {
+    case '&&':
+      return l ? evalAst(right, run, locals) : l
+    case '||':
+      return l ? l : evalAst(right, run, locals)
+    case '??':
+      return l ?? evalAst(right, run, locals)
+    default:
+      throw new ExpressionError('unsupported', `Unsupported logical operator: ${operator}`)
+  }
+}
+
+/** Key of `obj[key]`: strings and integers only. A missing key (null/undefined) reads as undefined. */
+function toPropertyKey(key: unknown): string | undefined {
+  if (key == null) return undefined
+  if (typeof key === 'string') return key
+  if (typeof key === 'number' && Number.isInteger(key)) return String(key)
+  throw new ExpressionError('type', 'Computed member keys must be strings or integers')
+}
+
+/** Offset of the first call of `name` in `source` (0 if not found). */
+function findCall(source: string, name: string): number {
+  const escaped = name.replace(/[$]/g, '\\$')
+  const m = new RegExp(`(^|[^\\w$.])${escaped}\\s*(\\?\\.)?\\(`).exec(source)
+  return m ? m.index + m[1]!.length : 0
+}
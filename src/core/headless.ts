@@ -0,0 +1,63 @@
+import type {
+  AssetResolver,
+  DocumentTemplatePackageV1,
+  DocumentTemplateV1,
+  EvalLimits,
+  FunctionMap,
+} from './types'
+import { unpackTemplate } from './assets'
+import { buildEvalContext, evaluateTemplateStrict } from './evaluate'
+import { renderVectorPdf } from './pdfVector'
+
+export type RenderPdfOptions = {
+  /**
+   * Maps `imageRef`s to URLs that `fetch` can load (absolute http(s) URLs or data URLs).
+   * In Node there is no page origin, so relative refs like `/logo.png` need a resolver.
+   * Images embedded in a package are used first.
+   */
+  assetResolver?: AssetResolver
+  /** Host functions for the template's expressions, added to the built-in helpers (see `buildEvalContext`). */
+  functions?: FunctionMap
+  /** Overrides the template's `locale` for this render. */
+  locale?: string
+  /** Overrides the template's `timeZone` for this render. */
+  timeZone?: string
+  /**
+   * Refuse to render when any expression fails (see `evaluateTemplate`): throws a `TemplateEvaluationError` listing
+   * every error instead of printing `[expr error: ...]` into the document. Defaults to false.
+   */
+  strict?: boolean
+  /** Evaluation limits for untrusted templates (see `DEFAULT_EVAL_LIMITS`). */
+  limits?: Partial<EvalLimits>
+  /** Defaults to the template name. */
+  filename?: string
+}
+
+export type RenderedPdf = {
+  bytes: Uint8Array<ArrayBuffer>
+  filename: string
+  /** Variable evaluation errors (rendering still completes, like in the Evaluator). Always empty when strict. */
+  errors: string[]
+}
+
+/**
+ * Renders a template to PDF bytes without a DOM, so it runs in Node as well as in the browser.
+ * Uses the vector backend and the same layout pass as `DocumentPreview`.
+ */
+export async function renderPdf(
+  source: DocumentTemplateV1 | DocumentTemplatePackageV1,
+  inputs: Record<string, unknown>,
+  options: RenderPdfOptions = {},
+): Promise<RenderedPdf> {
+  const { template, assetResolver } = unpackTemplate(source, options.assetResolver)
+  const { ctx, errors } = options.strict
+    ? { ctx: evaluateTemplateStrict(template, inputs, options), errors: [] }
+    : buildEvalContext(template, inputs, options.functions, options)
+  const pdf = await renderVectorPdf(template, ctx, { assetResolver })
+
+  return {
+    bytes: new Uint8Array(pdf.output('arraybuffer')),
+    filename: options.filename ?? `${template.meta?.name ?? 'document'}.pdf`,
+    errors,
+  }
+}
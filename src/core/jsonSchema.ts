@@ -0,0 +1,357 @@
+import type {
+  BaseElementV1,
+  DocumentPageV1,
+  DocumentTemplatePackageV1,
+  DocumentTemplateV1,
+  ImageElementV1,
+  InputDefV1,
+  LineElementV1,
+  PackageAssetV1,
+  PageBandV1,
+  PageMarginsPt,
+  QrElementV1,
+  RectPt,
+  TableBorderV1,
+  TableBordersV1,
+  TableCellStyleV1,
+  TableColumnV1,
+  TableElementV1,
+  TableNumberFormatV1,
+  TableRowStyleV1,
+  TemplateMeta,
+  TemplatePage,
+  TextElementV1,
+  TextStyleV1,
+} from './types'
+
+// JSON Schemas (draft 2020-12) for the template formats in ./types.ts. The build also writes them to
+// dist/schema/*.json.
+//
+// `satisfies SchemaProps<T>` makes the type-check fail when a property is added to (or removed from) an
+// interface without updating its schema.
+
+export const TEMPLATE_SCHEMA_ID = 'urn:doc-template-kit:schema:docTemplate-v1'
+export const PACKAGE_SCHEMA_ID = 'urn:doc-template-kit:schema:docTemplatePackage-v1'
+
+const number = { type: 'number' } as const
+const string = { type: 'string' } as const
+const boolean = { type: 'boolean' } as const
+const expression = { type: 'string', description: 'Expression evaluated by the sandboxed evaluator.' } as const
+const templateString = { type: 'string', description: 'Text with {{ expression }} placeholders.' } as const
+const lineStyle = { enum: ['solid', 'dashed', 'dotted'] } as const
+const textAlign = { enum: ['left', 'center', 'right'] } as const
+
+type SchemaProps<T> = Record<keyof T, unknown>
+
+function element<T extends BaseElementV1>(
+  type: T['type'],
+  properties: SchemaProps<Omit<T, keyof BaseElementV1>>,
+  required: Array<keyof T & string> = [],
+) {
+  return {
+    type: 'object',
+    required: ['id', 'type', 'rect', ...required],
+    properties: {
+      id: { type: 'string', minLength: 1 },
+      type: { const: type },
+      rect: { $ref: '#/$defs/RectPt' },
+      visibleIf: { ...expression, description: 'Element is only drawn when this expression is truthy.' },
+      ...properties,
+    } satisfies SchemaProps<BaseElementV1>,
+  }
+}
+
+const defs = {
+  PageSize: { enum: ['A3', 'A4', 'A5', 'LETTER', 'LEGAL', 'CUSTOM'] },
+  PageOrientation: { enum: ['portrait', 'landscape'] },
+  SizePt: {
+    type: 'object',
+    required: ['wPt', 'hPt'],
+    properties: { wPt: { type: 'number', exclusiveMinimum: 0 }, hPt: { type: 'number', exclusiveMinimum: 0 } },
+  },
+  RectPt: {
+    type: 'object',
+    required: ['xPt', 'yPt', 'wPt', 'hPt'],
+    properties: {
+      xPt: number,
+      yPt: number,
+      wPt: { type: 'number', minimum: 0 },
+      hPt: { type: 'number', minimum: 0 },
+      z: number,
+    } satisfies SchemaProps<RectPt>,
+  },
+  PageMarginsPt: {
+    type: 'object',
+    required: ['topPt', 'rightPt', 'bottomPt', 'leftPt'],
+    properties: {
+      topPt: { type: 'number', minimum: 0 },
+      rightPt: { type: 'number', minimum: 0 },
+      bottomPt: { type: 'number', minimum: 0 },
+      leftPt: { type: 'number', minimum: 0 },
+    } satisfies SchemaProps<PageMarginsPt>,
+  },
+  TemplateMeta: {
+    type: 'object',
+    required: ['name'],
+    properties: { name: string, description: string } satisfies SchemaProps<TemplateMeta>,
+  },
+  PageBandV1: {
+    type: 'object',
+    required: ['heightPt', 'elements'],
+    properties: {
+      heightPt: { type: 'number', minimum: 0 },
+      elements: {
+        type: 'array',
+        description: "Element rects are relative to the band's top-left corner.",
+        items: { $ref: '#/$defs/TemplateV1Element' },
+      },
+    } satisfies SchemaProps<PageBandV1>,
+  },
+  TemplatePage: {
+    type: 'object',
+    required: ['size', 'orientation', 'marginPt'],
+    properties: {
+      size: { $ref: '#/$defs/PageSize' },
+      orientation: { $ref: '#/$defs/PageOrientation' },
+      marginPt: { $ref: '#/$defs/PageMarginsPt' },
+      customSizePt: {
+        $ref: '#/$defs/SizePt',
+        description: "Only used when size is 'CUSTOM'. Portrait base dimensions in points.",
+      },
+      header: { $ref: '#/$defs/PageBandV1', description: 'Repeated at the top of every page.' },
+      footer: { $ref: '#/$defs/PageBandV1', description: 'Repeated at the bottom of every page.' },
+    } satisfies SchemaProps<TemplatePage>,
+  },
+  DocumentPageV1: {
+    type: 'object',
+    required: ['id', 'elements'],
+    properties: {
+      id: { type: 'string', minLength: 1, not: { const: 'page_1' }, description: "'page_1' is the first page's id." },
+      size: { $ref: '#/$defs/PageSize' },
+      orientation: { $ref: '#/$defs/PageOrientation' },
+      customSizePt: { $ref: '#/$defs/SizePt' },
+      elements: { type: 'array', items: { $ref: '#/$defs/TemplateV1Element' } },
+    } satisfies SchemaProps<DocumentPageV1>,
+  },
+  InputDefV1: {
+    type: 'object',
+    required: ['key', 'label', 'type'],
+    properties: {
+      key: { type: 'string', minLength: 1 },
+      label: string,
+      type: { enum: ['string', 'number', 'boolean', 'date'] },
+      required: boolean,
+      defaultValue: {},
+    } satisfies SchemaProps<InputDefV1>,
+  },
+  TextStyleV1: {
+    type: 'object',
+    properties: {
+      fontSizePt: { type: 'number', minimum: 0 },
+      fontFamily: { type: 'string', description: 'CSS font-family string (e.g. "Arial, sans-serif").' },
+      fontWeight: { anyOf: [number, { enum: ['normal', 'bold'] }] },
+      fontStyle: { enum: ['normal', 'italic'] },
+      textAlign,
+      color: string,
+      textDecoration: { enum: ['none', 'underline'] },
+      lineHeight: { type: 'number', minimum: 0 },
+      borderWidthPt: { type: 'number', minimum: 0 },
+      borderColor: string,
+      borderStyle: lineStyle,
+      borderSides: {
+        type: 'object',
+        description: 'If omitted, the border applies to all sides.',
+        properties: { top: boolean, right: boolean, bottom: boolean, left: boolean },
+      },
+    } satisfies SchemaProps<TextStyleV1>,
+  },
+  TextElementV1: element<TextElementV1>(
+    'text',
+    { textTpl: templateString, style: { $ref: '#/$defs/TextStyleV1' } },
+    ['textTpl'],
+  ),
+  ImageElementV1: element<ImageElementV1>(
+    'image',
+    {
+      imageRef: { type: 'string', minLength: 1 },
+      fit: { enum: ['contain', 'cover', 'stretch'] },
+      opacity: { type: 'number', minimum: 0, maximum: 1 },
+    },
+    ['imageRef'],
+  ),
+  LineElementV1: element<LineElementV1>('line', {
+    x1Pt: number,
+    y1Pt: number,
+    x2Pt: number,
+    y2Pt: number,
+    thicknessPt: { type: 'number', minimum: 0 },
+    color: string,
+    lineStyle,
+  }),
+  TableColumnV1: {
+    type: 'object',
+    required: ['key', 'cellTpl'],
+    properties: {
+      key: { type: 'string', minLength: 1 },
+      header: string,
+      cellTpl: { ...templateString, description: 'Cell text; `row` is the current item.' },
+      widthPct: { type: 'number', minimum: 0, maximum: 100 },
+      align: textAlign,
+      numberFormat: { $ref: '#/$defs/TableNumberFormatV1' },
+    } satisfies SchemaProps<TableColumnV1>,
+  },
+  TableNumberFormatV1: {
+    type: 'object',
+    description: 'Applies to cells whose text is a plain number, using the template locale.',
+    properties: {
+      style: { enum: ['decimal', 'currency', 'percent'] },
+      currency: { type: 'string', description: "ISO 4217 code, required by 'currency'." },
+      decimals: { type: 'integer', minimum: 0, maximum: 20 },
+      grouping: boolean,
+    } satisfies SchemaProps<TableNumberFormatV1>,
+  },
+  TableCellStyleV1: {
+    type: 'object',
+    properties: {
+      background: string,
+      color: string,
+      fontWeight: { enum: ['normal', 'bold'] },
+      fontStyle: { enum: ['normal', 'italic'] },
+    } satisfies SchemaProps<TableCellStyleV1>,
+  },
+  TableRowStyleV1: {
+    type: 'object',
+    required: ['when'],
+    properties: {
+      when: { ...expression, description: 'The style applies to body rows for which this is truthy (`row` is set).' },
+      background: string,
+      color: string,
+      fontWeight: { enum: ['normal', 'bold'] },
+      fontStyle: { enum: ['normal', 'italic'] },
+    } satisfies SchemaProps<TableRowStyleV1>,
+  },
+  TableBorderV1: {
+    type: 'object',
+    properties: {
+      widthPt: { type: 'number', minimum: 0, description: '0 hides the edge.' },
+      color: string,
+    } satisfies SchemaProps<TableBorderV1>,
+  },
+  TableBordersV1: {
+    type: 'object',
+    description: "Per-edge overrides of the table's borderWidthPt / borderColor.",
+    properties: {
+      top: { $ref: '#/$defs/TableBorderV1' },
+      right: { $ref: '#/$defs/TableBorderV1' },
+      bottom: { $ref: '#/$defs/TableBorderV1' },
+      left: { $ref: '#/$defs/TableBorderV1' },
+      horizontal: { $ref: '#/$defs/TableBorderV1', description: 'Lines between rows.' },
+      vertical: { $ref: '#/$defs/TableBorderV1', description: 'Lines between columns.' },
+    } satisfies SchemaProps<TableBordersV1>,
+  },
+  TableElementV1: element<TableElementV1>(
+    'table',
+    {
+      rowsExpr: { ...expression, description: 'Expression returning the array of rows.' },
+      columns: { type: 'array', items: { $ref: '#/$defs/TableColumnV1' } },
+      headerRow: boolean,
+      border: { ...boolean, description: 'false hides every border.' },
+      borderColor: string,
+      borderWidthPt: { type: 'number', minimum: 0 },
+      borders: { $ref: '#/$defs/TableBordersV1' },
+      fontSizePt: { type: 'number', minimum: 0 },
+      cellPaddingPt: { type: 'number', minimum: 0 },
+      verticalAlign: { enum: ['top', 'middle', 'bottom'] },
+      headerStyle: { $ref: '#/$defs/TableCellStyleV1' },
+      stripeColor: { ...string, description: 'Background of every other body row.' },
+      rowStyles: { type: 'array', items: { $ref: '#/$defs/TableRowStyleV1' } },
+      overflow: { enum: ['clip', 'paginate'] },
+      rowHeightPt: { type: 'number', exclusiveMinimum: 0 },
+      minRowsPerPage: { type: 'integer', minimum: 1 },
+      continuedCaption: templateString,
+    },
+    ['rowsExpr', 'columns'],
+  ),
+  QrElementV1: element<QrElementV1>(
+    'qr',
+    {
+      dataTpl: templateString,
+      ecc: { enum: ['L', 'M', 'Q', 'H'] },
+      marginModules: { type: 'integer', minimum: 0 },
+      fgColor: string,
+      bgColor: string,
+    },
+    ['dataTpl'],
+  ),
+  TemplateV1Element: {
+    oneOf: [
+      { $ref: '#/$defs/TextElementV1' },
+      { $ref: '#/$defs/ImageElementV1' },
+      { $ref: '#/$defs/LineElementV1' },
+      { $ref: '#/$defs/TableElementV1' },
+      { $ref: '#/$defs/QrElementV1' },
+    ],
+  },
+  DocumentTemplateV1: {
+    type: 'object',
+    required: ['schemaVersion', 'meta', 'page', 'inputs', 'constants', 'variables', 'elements'],
+    properties: {
+      schemaVersion: { const: 'docTemplate-v1' },
+      meta: { $ref: '#/$defs/TemplateMeta' },
+      page: { $ref: '#/$defs/TemplatePage' },
+      inputs: { type: 'array', items: { $ref: '#/$defs/InputDefV1' } },
+      constants: { type: 'object' },
+      variables: { type: 'object', additionalProperties: expression },
+      elements: {
+        type: 'array',
+        description: 'Elements of the first page.',
+        items: { $ref: '#/$defs/TemplateV1Element' },
+      },
+      pages: {
+        type: 'array',
+        description: 'Additional pages after the first one.',
+        items: { $ref: '#/$defs/DocumentPageV1' },
+      },
+      locale: { type: 'string', description: 'BCP 47 locale used by the helpers by default (e.g. "es-MX").' },
+      timeZone: { type: 'string', description: 'IANA time zone used to format timestamps by default.' },
+    } satisfies SchemaProps<DocumentTemplateV1>,
+  },
+  PackageAssetV1: {
+    type: 'object',
+    required: ['dataUrl'],
+    properties: {
+      dataUrl: { type: 'string', pattern: '^data:' },
+      mimeType: string,
+    } satisfies SchemaProps<PackageAssetV1>,
+  },
+  DocumentTemplatePackageV1: {
+    type: 'object',
+    required: ['template'],
+    properties: {
+      template: { $ref: '#/$defs/DocumentTemplateV1' },
+      assets: {
+        type: 'object',
+        description: 'Embedded images by imageRef.',
+        additionalProperties: { $ref: '#/$defs/PackageAssetV1' },
+      },
+    } satisfies SchemaProps<DocumentTemplatePackageV1>,
+  },
+}
+
+/** Schema for a `DocumentTemplateV1` JSON document. Every type is also available under `$defs`. */
+export const templateJsonSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: TEMPLATE_SCHEMA_ID,
+  title: 'DocumentTemplateV1',
+  $ref: '#/$defs/DocumentTemplateV1',
+  $defs: defs,
+}
+
+/** Schema for a `DocumentTemplatePackageV1` JSON document (a template plus embedded assets). */
+export const packageJsonSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: PACKAGE_SCHEMA_ID,
+  title: 'DocumentTemplatePackageV1',
+  $ref: '#/$defs/DocumentTemplatePackageV1',
+  $defs: defs,
+}
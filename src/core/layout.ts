@@ -0,0 +1,251 @@
+import type {
+  DocumentTemplateV1,
+  EvalContext,
+  EvalPageInfo,
+  FunctionMap,
+  LineElementV1,
+  RectPt,
+  TableElementV1,
+  TemplateV1Element,
+} from './types'
+import { evalBoolean } from './evaluate'
+import { compileExpression } from './expr'
+import { getTemplatePages, type ResolvedPageV1 } from './pages'
+import { getTableCellPaddingPt } from './tableStyle'
+
+/** Rows of a table drawn on one output page. */
+export type TableSliceV1 = {
+  rows: unknown[]
+  /** Index of the first row of this slice within all rows returned by rowsExpr. */
+  startIndex: number
+  /** True on pages that continue a table started on an earlier page. */
+  continued: boolean
+}
+
+/**
+ * One physical page of output. A template page produces one laid-out page, plus one continuation page per
+ * overflowing chunk of a paginated table.
+ */
+export type LaidOutPageV1 = Omit<ResolvedPageV1, 'index' | 'id'> & {
+  /** 0-based position in the output. */
+  index: number
+  /** Unique per output page (continuation pages derive theirs from the template page id). */
+  id: string
+  /** Index of the template page this output page comes from. */
+  sourceIndex: number
+  continuation: boolean
+  /** Table rows to draw on this page, by table element id. */
+  tables: Record<string, TableSliceV1>
+  /** Exposed to expressions on this page as `page`. */
+  pageInfo: EvalPageInfo
+}
+
+const DEFAULT_TABLE_FONT_SIZE_PT = 12
+
+export function getTableRowHeightPt(el: TableElementV1): number {
+  if (typeof el.rowHeightPt === 'number' && el.rowHeightPt > 0) return el.rowHeightPt
+  // One line of text plus the cell padding above and below it.
+  const fontSizePt = el.fontSizePt ?? DEFAULT_TABLE_FONT_SIZE_PT
+  return Math.ceil(fontSizePt * 1.4 + getTableCellPaddingPt(el) * 2)
+}
+
+/** Column widths as percentages of the table width; columns without `widthPct` share what the others leave. */
+export function getTableColumnWidthsPct(el: TableElementV1): number[] {
+  const fixedPct = el.columns.reduce((sum, c) => sum + (c.widthPct ?? 0), 0)
+  const autoCount = el.columns.filter((c) => !c.widthPct).length
+  const autoPct = autoCount > 0 ? Math.max(0, 100 - fixedPct) / autoCount : 0
+  return el.columns.map((c) => c.widthPct || autoPct)
+}
+
+export function evalTableRows(el: TableElementV1, ctx: EvalContext, functions?: FunctionMap): unknown[] {
+  try {
+    const v = compileExpression(el.rowsExpr)(ctx, functions)
+    return Array.isArray(v) ? v : []
+  } catch {
+    return []
+  }
+}
+
+/** Endpoints of a line element in page points, falling back to a horizontal/vertical line derived from `rect`. */
+export function getLineEndpointsPt(el: LineElementV1): { x1Pt: number; y1Pt: number; x2Pt: number; y2Pt: number } {
+  const hasExplicit =
+    typeof el.x1Pt === 'number' &&
+    typeof el.y1Pt === 'number' &&
+    typeof el.x2Pt === 'number' &&
+    typeof el.y2Pt === 'number'
+
+  if (hasExplicit) {
+    return { x1Pt: el.x1Pt!, y1Pt: el.y1Pt!, x2Pt: el.x2Pt!, y2Pt: el.y2Pt! }
+  }
+
+  const isHorizontal = el.rect.wPt >= el.rect.hPt
+  if (isHorizontal) {
+    return {
+      x1Pt: el.rect.xPt,
+      y1Pt: el.rect.yPt,
+      x2Pt: el.rect.xPt + el.rect.wPt,
+      y2Pt: el.rect.yPt,
+    }
+  }
+
+  return {
+    x1Pt: el.rect.xPt,
+    y1Pt: el.rect.yPt,
+    x2Pt: el.rect.xPt,
+    y2Pt: el.rect.yPt + el.rect.hPt,
+  }
+}
+
+/** Content area of a page: inside the margins and between the header and footer bands. */
+export function getPageContentRect(page: ResolvedPageV1): RectPt {
+  const m = page.page.marginPt ?? { topPt: 0, rightPt: 0, bottomPt: 0, leftPt: 0 }
+  const top = page.header ? page.header.rect.yPt + page.header.rect.hPt : m.topPt
+  const bottom = page.footer ? page.footer.rect.yPt : page.hPt - m.bottomPt
+  return {
+    xPt: m.leftPt,
+    yPt: top,
+    wPt: Math.max(0, page.wPt - m.leftPt - m.rightPt),
+    hPt: Math.max(0, bottom - top),
+  }
+}
+
+function rowCapacity(el: TableElementV1, heightPt: number, withCaption: boolean): number {
+  const rowHPt = getTableRowHeightPt(el)
+  const headerHPt = el.headerRow !== false ? rowHPt : 0
+  const captionHPt = withCaption ? rowHPt : 0
+  return Math.max(0, Math.floor((heightPt - headerHPt - captionHPt) / rowHPt))
+}
+
+/**
+ * Splits rows into per-page chunks. The first chunk fills the element rect; later chunks fill `continuationHPt`.
+ * `minRowsPerPage` keeps the table from starting with (or leaving behind) only a few rows on a page.
+ */
+export function paginateTableRows(el: TableElementV1, rowCount: number, continuationHPt: number): number[] {
+  const minRows = Math.max(1, Math.floor(el.minRowsPerPage ?? 1))
+  const hasCaption = Boolean(el.continuedCaption)
+
+  let first = rowCapacity(el, el.rect.hPt, false)
+  if (rowCount <= first) return [rowCount]
+
+  // Not enough room for a meaningful start: move the whole table to the next page.
+  if (first < minRows) first = 0
+
+  // Always make progress, even if a single row is taller than the page.
+  const next = Math.max(1, rowCapacity(el, continuationHPt, hasCaption))
+  const chunks = [first]
+  let remaining = rowCount - first
+  while (remaining > 0) {
+    const take = Math.min(next, remaining)
+    chunks.push(take)
+    remaining -= take
+  }
+
+  // Widow control: pull rows forward so the last page isn't left with too few.
+  const last = chunks.length - 1
+  const prev = chunks[last - 1]!
+  if (chunks[last]! < minRows && prev > minRows) {
+    const move = Math.min(minRows - chunks[last]!, prev - minRows)
+    chunks[last - 1] = prev - move
+    chunks[last] = chunks[last]! + move
+  }
+
+  return chunks
+}
+
+/**
+ * Computes the physical pages of a document. This is DOM-free so the browser preview and the PDF backends
+ * make exactly the same pagination decisions.
+ *
+ * Page numbers are only known once every table has been paginated, so page content is evaluated in a second
+ * pass with `withPageContext`.
+ */
+export function layoutDocument(
+  template: DocumentTemplateV1,
+  ctx: EvalContext,
+  functions?: FunctionMap,
+): LaidOutPageV1[] {
+  const out: Omit<LaidOutPageV1, 'pageInfo'>[] = []
+
+  for (const page of getTemplatePages(template)) {
+    const { index: sourceIndex, id: sourceId, ...setup } = page
+    const bandTables: Record<string, TableSliceV1> = {}
+    const continuations: Omit<LaidOutPageV1, 'pageInfo'>[] = []
+    const contentRect = getPageContentRect(page)
+
+    // Tables in header/footer bands never paginate.
+    for (const el of [...(page.header?.elements ?? []), ...(page.footer?.elements ?? [])]) {
+      if (el.type !== 'table') continue
+      bandTables[el.id] = { rows: evalTableRows(el, ctx, functions), startIndex: 0, continued: false }
+    }
+    const tables: Record<string, TableSliceV1> = { ...bandTables }
+
+    const tableEls = page.elements
+      .filter((el): el is TableElementV1 => el.type === 'table')
+      .filter((el) => evalBoolean(el.visibleIf, ctx, functions))
+      .sort((a, b) => a.rect.yPt - b.rect.yPt)
+
+    for (const el of tableEls) {
+      const rows = evalTableRows(el, ctx, functions)
+      if (el.overflow !== 'paginate') {
+        tables[el.id] = { rows, startIndex: 0, continued: false }
+        continue
+      }
+
+      const chunks = paginateTableRows(el, rows.length, contentRect.hPt)
+      let start = 0
+      chunks.forEach((count, i) => {
+        const slice: TableSliceV1 = { rows: rows.slice(start, start + count), startIndex: start, continued: start > 0 }
+        start += count
+
+        if (i === 0) {
+          // An empty first chunk means the table starts on the next page.
+          if (count > 0 || chunks.length === 1) tables[el.id] = slice
+          return
+        }
+
+        // Continuation pages only carry the table (header/footer bands still repeat).
+        const contEl: TemplateV1Element = {
+          ...el,
+          visibleIf: undefined,
+          rect: { ...el.rect, yPt: contentRect.yPt, hPt: contentRect.hPt },
+        }
+        continuations.push({
+          ...setup,
+          index: 0,
+          id: `${sourceId}~${el.id}~${i}`,
+          sourceIndex,
+          continuation: true,
+          elements: [contEl],
+          tables: { ...bandTables, [el.id]: slice },
+        })
+      })
+    }
+
+    out.push({ ...setup, index: 0, id: sourceId, sourceIndex, continuation: false, tables }, ...continuations)
+  }
+
+  const sectionCounts = new Map<number, number>()
+  for (const p of out) sectionCounts.set(p.sourceIndex, (sectionCounts.get(p.sourceIndex) ?? 0) + 1)
+
+  const seen = new Map<number, number>()
+  return out.map((p, index) => {
+    const sectionNumber = (seen.get(p.sourceIndex) ?? 0) + 1
+    seen.set(p.sourceIndex, sectionNumber)
+    return {
+      ...p,
+      index,
+      pageInfo: {
+        number: index + 1,
+        count: out.length,
+        section: p.sourceIndex + 1,
+        sectionNumber,
+        sectionCount: sectionCounts.get(p.sourceIndex)!,
+      },
+    }
+  })
+}
+
+/** Evaluation context for the content of one laid-out page. */
+export function withPageContext(ctx: EvalContext, page: LaidOutPageV1): EvalContext {
+  return { ...ctx, page: page.pageInfo }
+}
@@ -0,0 +1,28 @@
+// Small string-keyed LRU cache for parsed expressions and templates (a Map iterates in insertion order, so the
+// first key is always the least recently used one).
+
+export type LruCache<V> = {
+  /** Returns the cached value for `key`, computing and storing it with `create` on a miss. */
+  get: (key: string, create: () => V) => V
+  clear: () => void
+}
+
+export function createLruCache<V>(maxSize: number): LruCache<V> {
+  const entries = new Map<string, V>()
+
+  return {
+    get: (key, create) => {
+      if (entries.has(key)) {
+        const hit = entries.get(key) as V
+        entries.delete(key)
+        entries.set(key, hit)
+        return hit
+      }
+      const value = create()
+      entries.set(key, value)
+      if (entries.size > maxSize) entries.delete(entries.keys().next().value!)
+      return value
+    },
+    clear: () => entries.clear(),
+  }
+}
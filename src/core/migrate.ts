@@ -0,0 +1,109 @@
+import type { DocumentTemplateV1, SchemaVersion, TemplatePage } from './types'
+
+/** The version `migrateTemplate` upgrades to. */
+export const LATEST_SCHEMA_VERSION: SchemaVersion = 'docTemplate-v1'
+
+/** Version reported for templates without a `schemaVersion` field. */
+export const UNVERSIONED = 'unversioned'
+
+type Obj = Record<string, unknown>
+
+/**
+ * One upgrade step. Steps receive a private copy of the JSON, may modify it in place, and describe every change
+ * they make with `report` so callers can show users what happened to their template.
+ */
+export type TemplateMigration = {
+  from: string
+  to: string
+  migrate: (json: Obj, report: (change: string) => void) => Obj
+}
+
+export type TemplateMigrationResult = {
+  template: DocumentTemplateV1
+  /** Version detected in the input. */
+  fromVersion: string
+  toVersion: SchemaVersion
+  /** Human-readable list of changes, in the order they were applied. Empty when the input was already current. */
+  changes: string[]
+}
+
+export class TemplateMigrationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TemplateMigrationError'
+  }
+}
+
+function isObject(value: unknown): value is Obj {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function fillMissing(json: Obj, key: string, value: unknown, report: (change: string) => void): void {
+  if (json[key] !== undefined) return
+  json[key] = value
+  report(`Added missing "${key}"`)
+}
+
+/** Page given to unversioned templates that have none, which early exports omitted when left at the default. */
+const UNVERSIONED_DEFAULT_PAGE: TemplatePage = {
+  size: 'A4',
+  orientation: 'portrait',
+  marginPt: { topPt: 36, rightPt: 36, bottomPt: 36, leftPt: 36 },
+}
+
+// Ordered: each step's `to` is the next step's `from`. Append a step (and bump LATEST_SCHEMA_VERSION) when existing
+// templates need rewriting; new optional fields keep the current version, since older templates stay valid as is.
+export const TEMPLATE_MIGRATIONS: readonly TemplateMigration[] = [
+  {
+    // Early Designer exports had no version field and omitted empty sections.
+    from: UNVERSIONED,
+    to: 'docTemplate-v1',
+    migrate: (json, report) => {
+      json.schemaVersion = 'docTemplate-v1'
+      report("Set schemaVersion to 'docTemplate-v1'")
+      if (!isObject(json.meta)) {
+        json.meta = { name: 'Untitled' }
+        report('Added missing "meta"')
+      }
+      if (json.page === undefined) {
+        json.page = structuredClone(UNVERSIONED_DEFAULT_PAGE)
+        report('Added missing "page" (A4 portrait, 36 pt margins)')
+      }
+      fillMissing(json, 'inputs', [], report)
+      fillMissing(json, 'constants', {}, report)
+      fillMissing(json, 'variables', {}, report)
+      fillMissing(json, 'elements', [], report)
+      return json
+    },
+  },
+]
+
+/** The `schemaVersion` of a template JSON document, or `UNVERSIONED` when it has none. */
+export function detectSchemaVersion(json: unknown): string {
+  if (!isObject(json)) throw new TemplateMigrationError('Template JSON must be an object')
+  const version = json.schemaVersion
+  if (version === undefined) return UNVERSIONED
+  if (typeof version !== 'string') throw new TemplateMigrationError('schemaVersion must be a string')
+  return version
+}
+
+/**
+ * Upgrades a parsed template of any known version to `LATEST_SCHEMA_VERSION`. The input is not modified.
+ * Only the version-specific shape is migrated; run `validateTemplate` on the result to check the rest.
+ */
+export function migrateTemplate(json: unknown): TemplateMigrationResult {
+  const fromVersion = detectSchemaVersion(json)
+  const changes: string[] = []
+  const report = (change: string) => changes.push(change)
+
+  let current = structuredClone(json) as Obj
+  let version = fromVersion
+  while (version !== LATEST_SCHEMA_VERSION) {
+    const step = TEMPLATE_MIGRATIONS.find((m) => m.from === version)
+    if (!step) throw new TemplateMigrationError(`Unsupported schemaVersion '${version}'`)
+    current = step.migrate(current, report)
+    version = step.to
+  }
+
+  return { template: current as unknown as DocumentTemplateV1, fromVersion, toVersion: LATEST_SCHEMA_VERSION, changes }
+}
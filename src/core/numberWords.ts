@@ -0,0 +1,307 @@
+// Spelled-out numbers and amounts ("two hundred fifty thousand dollars and 00/100") for English and Spanish.
+// Integers up to 999 trillion; English uses the short scale (billion = 10^9), Spanish the long one
+// (mil millones = 10^9, billón = 10^12).
+
+export type WordsCase = 'lower' | 'upper' | 'sentence'
+
+export type NumberToWordsOptions = {
+  /** Defaults to 'lower'. */
+  case?: WordsCase
+  /** Spanish: feminine forms for a feminine noun ("una", "doscientas"). */
+  feminine?: boolean
+  /** Spanish: shortened "un" / "veintiún" for use before a noun. */
+  apocope?: boolean
+}
+
+export type CurrencyToWordsOptions = {
+  /** 'fraction' (default) prints cents as "25/100"; 'words' spells them out. */
+  cents?: 'fraction' | 'words'
+  case?: WordsCase
+}
+
+type Language = 'en' | 'es'
+
+type CurrencyNames = { one: string; other: string; centOne: string; centOther: string }
+
+const MAX_WORDS_VALUE = 1e15
+
+const PLAIN_DECIMAL = new Intl.NumberFormat('en-US', { useGrouping: false, maximumFractionDigits: 20 })
+
+const EN_ONES = [
+  'zero',
+  'one',
+  'two',
+  'three',
+  'four',
+  'five',
+  'six',
+  'seven',
+  'eight',
+  'nine',
+  'ten',
+  'eleven',
+  'twelve',
+  'thirteen',
+  'fourteen',
+  'fifteen',
+  'sixteen',
+  'seventeen',
+  'eighteen',
+  'nineteen',
+]
+const EN_TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety']
+const EN_SCALES = ['', 'thousand', 'million', 'billion', 'trillion']
+
+const ES_UNITS = [
+  'cero',
+  'uno',
+  'dos',
+  'tres',
+  'cuatro',
+  'cinco',
+  'seis',
+  'siete',
+  'ocho',
+  'nueve',
+  'diez',
+  'once',
+  'doce',
+  'trece',
+  'catorce',
+  'quince',
+  'dieciséis',
+  'diecisiete',
+  'dieciocho',
+  'diecinueve',
+  'veinte',
+  'veintiuno',
+  'veintidós',
+  'veintitrés',
+  'veinticuatro',
+  'veinticinco',
+  'veintiséis',
+  'veintisiete',
+  'veintiocho',
+  'veintinueve',
+]
+const ES_TENS = ['', '', '', 'treinta', 'cuarenta', 'cincuenta', 'sesenta', 'setenta', 'ochenta', 'noventa']
+const ES_HUNDREDS = [
+  '',
+  'ciento',
+  'doscientos',
+  'trescientos',
+  'cuatrocientos',
+  'quinientos',
+  'seiscientos',
+  'setecientos',
+  'ochocientos',
+  'novecientos',
+]
+
+const CURRENCY_NAMES: Record<Language, Record<string, CurrencyNames>> = {
+  en: {
+    USD: { one: 'dollar', other: 'dollars', centOne: 'cent', centOther: 'cents' },
+    CAD: { one: 'Canadian dollar', other: 'Canadian dollars', centOne: 'cent', centOther: 'cents' },
+    AUD: { one: 'Australian dollar', other: 'Australian dollars', centOne: 'cent', centOther: 'cents' },
+    EUR: { one: 'euro', other: 'euros', centOne: 'cent', centOther: 'cents' },
+    GBP: { one: 'pound', other: 'pounds', centOne: 'penny', centOther: 'pence' },
+    MXN: { one: 'peso', other: 'pesos', centOne: 'centavo', centOther: 'centavos' },
+    JPY: { one: 'yen', other: 'yen', centOne: 'sen', centOther: 'sen' },
+  },
+  es: {
+    USD: { one: 'dólar', other: 'dólares', centOne: 'centavo', centOther: 'centavos' },
+    EUR: { one: 'euro', other: 'euros', centOne: 'céntimo', centOther: 'céntimos' },
+    GBP: { one: 'libra', other: 'libras', centOne: 'penique', centOther: 'peniques' },
+    MXN: { one: 'peso', other: 'pesos', centOne: 'centavo', centOther: 'centavos' },
+    ARS: { one: 'peso', other: 'pesos', centOne: 'centavo', centOther: 'centavos' },
+    CLP: { one: 'peso', other: 'pesos', centOne: 'centavo', centOther: 'centavos' },
+    COP: { one: 'peso', other: 'pesos', centOne: 'centavo', centOther: 'centavos' },
+    PEN: { one: 'sol', other: 'soles', centOne: 'céntimo', centOther: 'céntimos' },
+    JPY: { one: 'yen', other: 'yenes', centOne: 'sen', centOther: 'sen' },
+  },
+}
+
+function getLanguage(locale: string): Language {
+  const lang = locale.split(/[-_]/)[0]!.toLowerCase()
+  if (lang === 'en' || lang === 'es') return lang
+  throw new Error(`Number words are not available for locale '${locale}' (supported: en, es)`)
+}
+
+function applyCase(words: string, wordsCase: WordsCase | undefined): string {
+  if (wordsCase === 'upper') return words.toLocaleUpperCase()
+  if (wordsCase === 'sentence') return words.charAt(0).toLocaleUpperCase() + words.slice(1)
+  return words
+}
+
+function enBelowThousand(n: number): string {
+  const parts: string[] = []
+  const hundreds = Math.floor(n / 100)
+  const rest = n % 100
+  if (hundreds) parts.push(`${EN_ONES[hundreds]} hundred`)
+  if (rest >= 20) {
+    const tens = EN_TENS[Math.floor(rest / 10)]!
+    parts.push(rest % 10 ? `${tens}-${EN_ONES[rest % 10]}` : tens)
+  } else if (rest) {
+    parts.push(EN_ONES[rest]!)
+  }
+  return parts.join(' ')
+}
+
+function enInteger(n: number): string {
+  if (n === 0) return 'zero'
+  const groups: string[] = []
+  for (let scale = 0; n > 0; scale += 1) {
+    const group = n % 1000
+    if (group) groups.unshift([enBelowThousand(group), EN_SCALES[scale]].filter(Boolean).join(' '))
+    n = Math.floor(n / 1000)
+  }
+  return groups.join(' ')
+}
+
+type EsForm = { feminine: boolean; apocope: boolean }
+
+function esBelowHundred(n: number, form: EsForm): string {
+  let words = ES_UNITS[n] ?? ES_TENS[Math.floor(n / 10)]!
+  if (n >= 30 && n % 10) words += ` y ${ES_UNITS[n % 10]}`
+  if (n % 10 !== 1 || n === 11) return words
+  if (form.feminine) return words.replace(/uno$/, 'una')
+  if (form.apocope) return words.replace(/veintiuno$/, 'veintiún').replace(/uno$/, 'un')
+  return words
+}
+
+function esBelowThousand(n: number, form: EsForm): string {
+  if (n === 100) return 'cien'
+  const hundreds = Math.floor(n / 100)
+  const rest = n % 100
+  const parts: string[] = []
+  if (hundreds) {
+    const word = ES_HUNDREDS[hundreds]!
+    parts.push(form.feminine ? word.replace(/ientos$/, 'ientas') : word)
+  }
+  if (rest) parts.push(esBelowHundred(rest, form))
+  return parts.join(' ')
+}
+
+function esBelowMillion(n: number, form: EsForm): string {
+  const thousands = Math.floor(n / 1000)
+  const rest = n % 1000
+  const parts: string[] = []
+  // "mil", not "un mil"; the multiplier of mil always takes the short form ("veintiún mil").
+  if (thousands === 1) parts.push('mil')
+  else if (thousands > 1) parts.push(`${esBelowThousand(thousands, { ...form, apocope: true })} mil`)
+  if (rest) parts.push(esBelowThousand(rest, form))
+  return parts.join(' ')
+}
+
+function esInteger(n: number, form: EsForm): string {
+  if (n === 0) return 'cero'
+  const billions = Math.floor(n / 1e12)
+  const millions = Math.floor(n / 1e6) % 1e6
+  const rest = n % 1e6
+  // millón/billón are masculine nouns: "un millón", "doscientos millones" even in feminine mode.
+  const scaleForm = { feminine: false, apocope: true }
+  const parts: string[] = []
+  if (billions) parts.push(billions === 1 ? 'un billón' : `${esBelowMillion(billions, scaleForm)} billones`)
+  if (millions) parts.push(millions === 1 ? 'un millón' : `${esBelowMillion(millions, scaleForm)} millones`)
+  if (rest) parts.push(esBelowMillion(rest, form))
+  return parts.join(' ')
+}
+
+function integerToWords(n: number, lang: Language, form: EsForm): string {
+  return lang === 'en' ? enInteger(n) : esInteger(n, form)
+}
+
+function checkRange(value: number): void {
+  if (Math.abs(value) >= MAX_WORDS_VALUE) throw new Error('Number is too large to write in words')
+}
+
+function getDecimalSeparatorWord(locale: string, lang: Language): string {
+  if (lang === 'en') return 'point'
+  const separator = new Intl.NumberFormat(locale).formatToParts(1.5).find((p) => p.type === 'decimal')?.value
+  return separator === ',' ? 'coma' : 'punto'
+}
+
+/**
+ * Spells out a number, e.g. 1021 → "one thousand twenty-one" / "mil veintiuno". Fractional digits are read one
+ * by one after "point" / "punto" (or "coma" in locales that use a decimal comma).
+ */
+export function numberToWords(value: number, locale: string, options: NumberToWordsOptions = {}): string {
+  if (!Number.isFinite(value)) return ''
+  checkRange(value)
+  const lang = getLanguage(locale)
+  const form = { feminine: !!options.feminine, apocope: !!options.apocope }
+
+  const abs = Math.abs(value)
+  const integer = Math.trunc(abs)
+  let words = integerToWords(integer, lang, form)
+
+  // Shortest decimal digits without exponent notation (1e-7 → "0000001").
+  const digits = PLAIN_DECIMAL.format(abs).split('.')[1] ?? ''
+  if (digits) {
+    const spoken = [...digits].map((d) => integerToWords(Number(d), lang, { feminine: false, apocope: false }))
+    words += ` ${getDecimalSeparatorWord(locale, lang)} ${spoken.join(' ')}`
+  }
+
+  if (value < 0) words = `${lang === 'en' ? 'minus' : 'menos'} ${words}`
+  return applyCase(words, options.case)
+}
+
+function getCurrencyDigits(currency: string): number {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2
+}
+
+/**
+ * Writes an amount of money in words: `currencyToWords(250000, "USD", "en")` →
+ * "two hundred fifty thousand dollars and 00/100". Amounts are rounded to the currency's minor unit.
+ */
+export function currencyToWords(
+  value: number,
+  currency: string,
+  locale: string,
+  options: CurrencyToWordsOptions = {},
+): string {
+  if (!Number.isFinite(value)) return ''
+  checkRange(value)
+  const lang = getLanguage(locale)
+  const code = currency.trim().toUpperCase()
+  const digits = getCurrencyDigits(code)
+  const names = CURRENCY_NAMES[lang][code] ?? {
+    one: code,
+    other: code,
+    centOne: lang === 'en' ? 'cent' : 'centavo',
+    centOther: lang === 'en' ? 'cents' : 'centavos',
+  }
+
+  const scale = 10 ** digits
+  // Round like Intl (from the shortest decimal, half away from zero) so the words match the formatted figure:
+  // 1.005 is "$1.01", while Math.round(1.005 * 100) would give 100.
+  const rounded = new Intl.NumberFormat('en-US', {
+    useGrouping: false,
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).formatToParts(Math.abs(value))
+  const integer = Number(rounded.filter((p) => p.type === 'integer').map((p) => p.value).join(''))
+  const minor = Number(rounded.find((p) => p.type === 'fraction')?.value ?? 0)
+
+  // Currency names are masculine in both languages here, so Spanish uses "un peso", "veintiún dólares".
+  let words = `${integerToWords(integer, lang, { feminine: false, apocope: true })} `
+  // Spanish puts "de" between whole millions and the noun: "un millón de pesos", "dos millones de dólares".
+  if (lang === 'es' && integer >= 1e6 && integer % 1e6 === 0) words += 'de '
+  words += integer === 1 ? names.one : names.other
+
+  if (digits > 0) {
+    if (options.cents === 'words') {
+      if (minor > 0) {
+        const minorWords = integerToWords(minor, lang, { feminine: false, apocope: true })
+        const unit = minor === 1 ? names.centOne : names.centOther
+        words += ` ${lang === 'en' ? 'and' : 'con'} ${minorWords} ${unit}`
+      }
+    } else {
+      const fraction = `${String(minor).padStart(digits, '0')}/${scale}`
+      words += lang === 'en' ? ` and ${fraction}` : ` ${fraction}`
+    }
+  }
+
+  if (value < 0 && (integer > 0 || minor > 0)) words = `${lang === 'en' ? 'minus' : 'menos'} ${words}`
+  return applyCase(words, options.case)
+}
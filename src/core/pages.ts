@@ -0,0 +1,165 @@
+import type {
+  DocumentPageV1,
+  DocumentTemplateV1,
+  PageBandV1,
+  PageMarginsPt,
+  RectPt,
+  TemplatePage,
+  TemplateV1Element,
+} from './types'
+import { getPageSizePt } from './units'
+
+export type PageBandKind = 'header' | 'footer'
+
+export type ResolvedPageBandV1 = {
+  /** Band area in page points. */
+  rect: RectPt
+  elements: TemplateV1Element[]
+}
+
+export type ResolvedPageV1 = {
+  /** 0-based position in the document. */
+  index: number
+  id: string
+  /** Effective page setup (template-level setup merged with the page overrides). */
+  page: TemplatePage
+  wPt: number
+  hPt: number
+  elements: TemplateV1Element[]
+  header?: ResolvedPageBandV1
+  footer?: ResolvedPageBandV1
+}
+
+/** Id of the implicit first page (`template.page` + `template.elements`); `pages[]` entries can't use it. */
+export const FIRST_PAGE_ID = 'page_1'
+
+const NO_MARGINS: PageMarginsPt = { topPt: 0, rightPt: 0, bottomPt: 0, leftPt: 0 }
+
+function mergePageSetup(base: TemplatePage, page: DocumentPageV1): TemplatePage {
+  const size = page.size ?? base.size
+  return {
+    ...base,
+    size,
+    orientation: page.orientation ?? base.orientation,
+    customSizePt: size === 'CUSTOM' ? (page.customSizePt ?? base.customSizePt) : undefined,
+  }
+}
+
+/** Header/footer areas for a page of the given size. Bands sit inside the page margins. */
+export function getPageBandRects(
+  page: TemplatePage,
+  wPt: number,
+  hPt: number,
+): { header?: RectPt; footer?: RectPt } {
+  const m = page.marginPt ?? NO_MARGINS
+  const innerWPt = Math.max(0, wPt - m.leftPt - m.rightPt)
+  const out: { header?: RectPt; footer?: RectPt } = {}
+
+  if (page.header && page.header.heightPt > 0) {
+    out.header = { xPt: m.leftPt, yPt: m.topPt, wPt: innerWPt, hPt: page.header.heightPt }
+  }
+  if (page.footer && page.footer.heightPt > 0) {
+    out.footer = {
+      xPt: m.leftPt,
+      yPt: hPt - m.bottomPt - page.footer.heightPt,
+      wPt: innerWPt,
+      hPt: page.footer.heightPt,
+    }
+  }
+
+  return out
+}
+
+function resolvePage(index: number, id: string, page: TemplatePage, elements: TemplateV1Element[]): ResolvedPageV1 {
+  const { wPt, hPt } = getPageSizePt(page.size, page.orientation, page.customSizePt)
+  const bands = getPageBandRects(page, wPt, hPt)
+  const out: ResolvedPageV1 = { index, id, page, wPt, hPt, elements }
+  if (bands.header) out.header = { rect: bands.header, elements: page.header!.elements }
+  if (bands.footer) out.footer = { rect: bands.footer, elements: page.footer!.elements }
+  return out
+}
+
+export function getTemplatePages(template: DocumentTemplateV1): ResolvedPageV1[] {
+  const out: ResolvedPageV1[] = [resolvePage(0, FIRST_PAGE_ID, template.page, template.elements)]
+
+  for (const page of template.pages ?? []) {
+    out.push(resolvePage(out.length, page.id, mergePageSetup(template.page, page), page.elements))
+  }
+
+  return out
+}
+
+export function getPageCount(template: DocumentTemplateV1): number {
+  return 1 + (template.pages?.length ?? 0)
+}
+
+/** Every element in the template: page elements first, then header and footer elements. */
+export function getAllElements(template: DocumentTemplateV1): TemplateV1Element[] {
+  const out = [...template.elements]
+  for (const page of template.pages ?? []) out.push(...page.elements)
+  out.push(...getBandElements(template, 'header'), ...getBandElements(template, 'footer'))
+  return out
+}
+
+/** Page index of a page element, or -1 (also for header/footer elements). */
+export function findElementPageIndex(template: DocumentTemplateV1, id: string): number {
+  if (template.elements.some((e) => e.id === id)) return 0
+  const idx = (template.pages ?? []).findIndex((p) => p.elements.some((e) => e.id === id))
+  return idx < 0 ? -1 : idx + 1
+}
+
+export function findElementBand(template: DocumentTemplateV1, id: string): PageBandKind | null {
+  if (getBandElements(template, 'header').some((e) => e.id === id)) return 'header'
+  if (getBandElements(template, 'footer').some((e) => e.id === id)) return 'footer'
+  return null
+}
+
+export function getPageElements(template: DocumentTemplateV1, pageIndex: number): TemplateV1Element[] {
+  if (pageIndex <= 0) return template.elements
+  return template.pages?.[pageIndex - 1]?.elements ?? []
+}
+
+export function setPageElements(
+  template: DocumentTemplateV1,
+  pageIndex: number,
+  elements: TemplateV1Element[],
+): DocumentTemplateV1 {
+  if (pageIndex <= 0) return { ...template, elements }
+  const pages = template.pages ?? []
+  if (!pages[pageIndex - 1]) return template
+  return {
+    ...template,
+    pages: pages.map((p, i) => (i === pageIndex - 1 ? { ...p, elements } : p)),
+  }
+}
+
+export function getBandElements(template: DocumentTemplateV1, kind: PageBandKind): TemplateV1Element[] {
+  return template.page[kind]?.elements ?? []
+}
+
+export function setBandElements(
+  template: DocumentTemplateV1,
+  kind: PageBandKind,
+  elements: TemplateV1Element[],
+): DocumentTemplateV1 {
+  const band = template.page[kind]
+  if (!band) return template
+  return { ...template, page: { ...template.page, [kind]: { ...band, elements } } }
+}
+
+/** Applies `fn` to the element list of every page and of the header/footer bands. */
+export function mapTemplateElements(
+  template: DocumentTemplateV1,
+  fn: (elements: TemplateV1Element[]) => TemplateV1Element[],
+): DocumentTemplateV1 {
+  const mapBand = (band: PageBandV1 | undefined) => (band ? { ...band, elements: fn(band.elements) } : band)
+
+  const next: DocumentTemplateV1 = { ...template, elements: fn(template.elements) }
+  if (template.pages) next.pages = template.pages.map((p) => ({ ...p, elements: fn(p.elements) }))
+  if (template.page.header || template.page.footer) {
+    next.page = { ...template.page }
+    if (template.page.header) next.page.header = mapBand(template.page.header)
+    if (template.page.footer) next.page.footer = mapBand(template.page.footer)
+  }
+  return next
+}
@@ -1,5 +1,21 @@
-import type { DocumentTemplateV1 } from './types'
+import type {
+  AssetResolver,
+  DocumentTemplatePackageV1,
+  DocumentTemplateV1,
+  EvalLimits,
+  FunctionMap,
+  PageOrientation,
+} from './types'
+import { unpackTemplate } from './assets'
 import { getPageSizePt } from './units'
+import { renderPdf } from './headless'
+import { evaluateTemplateStrict } from './evaluate'
+
+/**
+ * - 'raster': captures the rendered preview with html2canvas (pixel-identical, but text is an image).
+ * - 'vector': draws the template with PDF primitives (selectable text, smaller files, standard fonts only).
+ */
+export type PdfBackend = 'raster' | 'vector'
 
 async function waitForImages(root: HTMLElement): Promise<void> {
   const imgs = Array.from(root.querySelectorAll('img'))
@@ -32,59 +48,181 @@ async function waitForImages(root: HTMLElement): Promise<void> {
   )
 }
 
-export async function openPdfPreviewFromElement(root: HTMLElement, template: DocumentTemplateV1): Promise<void> {
+// Laid-out pages (including table continuation pages) carry their size; fall back to the template's first page.
+function readPageSetup(
+  pageEl: HTMLElement,
+  template: DocumentTemplateV1,
+): { wPt: number; hPt: number; orientation: PageOrientation } {
+  const wPt = Number(pageEl.dataset.pageWPt)
+  const hPt = Number(pageEl.dataset.pageHPt)
+  const orientation = pageEl.dataset.pageOrientation
+  if (wPt > 0 && hPt > 0 && (orientation === 'portrait' || orientation === 'landscape')) {
+    return { wPt, hPt, orientation }
+  }
+
+  const { page } = template
+  return { ...getPageSizePt(page.size, page.orientation, page.customSizePt), orientation: page.orientation }
+}
+
+function keepFirstPageOnly(pdf: any): void {
+  // html2pdf/jsPDF sometimes adds an extra blank page due to subtle rounding/overflow.
+  // Every template page is captured separately, so each capture must yield exactly one page.
+  try {
+    const getPageCount =
+      typeof pdf?.getNumberOfPages === 'function'
+        ? () => pdf.getNumberOfPages()
+        : typeof pdf?.internal?.getNumberOfPages === 'function'
+          ? () => pdf.internal.getNumberOfPages()
+          : null
+
+    const pageCount = getPageCount ? Number(getPageCount()) : 1
+    if (pageCount > 1 && typeof pdf?.deletePage === 'function') {
+      for (let i = pageCount; i >= 2; i -= 1) {
+        pdf.deletePage(i)
+      }
+    }
+  } catch {
+    // ignore (best-effort cleanup)
+  }
+}
+
+export type GeneratePdfOptions = {
+  /** Defaults to 'raster' when `element` is given, 'vector' otherwise. */
+  backend?: PdfBackend
+  /** Rendered `DocumentPreview` (or a container of it) to capture. Required by the raster backend. */
+  element?: HTMLElement
+  assetResolver?: AssetResolver
+  /**
+   * Host functions for the template's expressions, added to the built-in helpers (vector backend and strict checks;
+   * the raster backend captures the preview, which gets them from its own context).
+   */
+  functions?: FunctionMap
+  /** Overrides the template's `locale` (vector backend; the raster backend captures the preview as rendered). */
+  locale?: string
+  /** Overrides the template's `timeZone` (vector backend). */
+  timeZone?: string
+  /** Throw a `TemplateEvaluationError` instead of producing a PDF when any expression fails. */
+  strict?: boolean
+  /** Evaluation limits for untrusted templates (vector backend; see `DEFAULT_EVAL_LIMITS`). */
+  limits?: Partial<EvalLimits>
+  /** Defaults to the template name. */
+  filename?: string
+}
+
+export type GeneratedPdf = {
+  blob: Blob
+  bytes: Uint8Array<ArrayBuffer>
+  filename: string
+}
+
+async function renderRasterPdf(root: HTMLElement, template: DocumentTemplateV1): Promise<any> {
   // html2pdf.js ships as a UMD-like module; TS typings are not guaranteed.
   const mod: any = await import('html2pdf.js')
   const html2pdf: any = mod?.default ?? mod
 
-  const { wPt, hPt } = getPageSizePt(template.page.size, template.page.orientation, template.page.customSizePt)
+  const pageEls = Array.from(root.querySelectorAll<HTMLElement>('[data-doc-page]'))
+  // Older/custom roots may not mark pages; treat the root itself as the only page.
+  if (pageEls.length === 0) pageEls.push(root)
 
   await (document as any).fonts?.ready
   await waitForImages(root)
 
+  const image = { type: 'jpeg', quality: 0.95 }
+  const html2canvas = {
+    scale: 2,
+    useCORS: true,
+    backgroundColor: '#ffffff',
+  }
+
+  const first = readPageSetup(pageEls[0]!, template)
   const worker = html2pdf()
     .set({
       margin: 0,
-      filename: `${template.meta?.name ?? 'document'}.pdf`,
-      image: { type: 'jpeg', quality: 0.95 },
-      html2canvas: {
-        scale: 2,
-        useCORS: true,
-        backgroundColor: '#ffffff',
-      },
+      image,
+      html2canvas,
       jsPDF: {
         unit: 'pt',
-        format: [wPt, hPt],
-        orientation: template.page.orientation,
+        format: [first.wPt, first.hPt],
+        orientation: first.orientation,
       },
     })
-    .from(root)
+    .from(pageEls[0])
     .toPdf()
 
   const pdf: any = await worker.get('pdf')
+  keepFirstPageOnly(pdf)
 
-  // The template model is single-page today. html2pdf/jsPDF sometimes adds an extra blank page
-  // due to subtle rounding/overflow; keep only the first page.
-  try {
-    const getPageCount =
-      typeof pdf?.getNumberOfPages === 'function'
-        ? () => pdf.getNumberOfPages()
-        : typeof pdf?.internal?.getNumberOfPages === 'function'
-          ? () => pdf.internal.getNumberOfPages()
-          : null
+  for (let i = 1; i < pageEls.length; i += 1) {
+    const page = readPageSetup(pageEls[i]!, template)
+    const canvas: HTMLCanvasElement = await html2pdf()
+      .set({ margin: 0, image, html2canvas })
+      .from(pageEls[i])
+      .toCanvas()
+      .get('canvas')
 
-    const pageCount = getPageCount ? Number(getPageCount()) : 1
-    if (pageCount > 1 && typeof pdf?.deletePage === 'function') {
-      for (let i = pageCount; i >= 2; i -= 1) {
-        pdf.deletePage(i)
-      }
-    }
-  } catch {
-    // ignore (best-effort cleanup)
+    pdf.addPage([page.wPt, page.hPt], page.orientation)
+    pdf.addImage(canvas.toDataURL('image/jpeg', image.quality), 'JPEG', 0, 0, page.wPt, page.hPt)
+  }
+
+  return pdf
+}
+
+function toGeneratedPdf(bytes: Uint8Array<ArrayBuffer>, filename: string): GeneratedPdf {
+  return { blob: new Blob([bytes], { type: 'application/pdf' }), bytes, filename }
+}
+
+function getPdfFilename(template: DocumentTemplateV1, filename?: string): string {
+  return filename ?? `${template.meta?.name ?? 'document'}.pdf`
+}
+
+/** Evaluates the template against `inputs` and returns the PDF without opening or downloading it. */
+export async function generatePdf(
+  source: DocumentTemplateV1 | DocumentTemplatePackageV1,
+  inputs: Record<string, unknown>,
+  options: GeneratePdfOptions = {},
+): Promise<GeneratedPdf> {
+  const { template } = unpackTemplate(source)
+  const backend = options.backend ?? (options.element ? 'raster' : 'vector')
+
+  if (backend === 'raster') {
+    if (!options.element) throw new Error('The raster PDF backend needs a rendered preview element')
+    // The capture shows whatever the preview rendered, so check the expressions separately.
+    if (options.strict) evaluateTemplateStrict(template, inputs, options)
+    const pdf = await renderRasterPdf(options.element, template)
+    return toGeneratedPdf(new Uint8Array(pdf.output('arraybuffer')), getPdfFilename(template, options.filename))
   }
 
-  const blob: Blob = pdf.output('blob')
+  const { bytes, filename } = await renderPdf(source, inputs, options)
+  return toGeneratedPdf(bytes, filename)
+}
+
+/** Generates the PDF and opens it in a new tab (users can print from the PDF viewer). */
+export async function openPdfPreview(
+  source: DocumentTemplateV1 | DocumentTemplatePackageV1,
+  inputs: Record<string, unknown>,
+  options?: GeneratePdfOptions,
+): Promise<void> {
+  openPdfInNewTab(await generatePdf(source, inputs, options))
+}
+
+export async function openPdfPreviewFromElement(root: HTMLElement, template: DocumentTemplateV1): Promise<void> {
+  const pdf = await renderRasterPdf(root, template)
+  openPdfInNewTab(toGeneratedPdf(new Uint8Array(pdf.output('arraybuffer')), getPdfFilename(template)))
+}
 
-  const url = URL.createObjectURL(blob)
+export function openPdfInNewTab(pdf: GeneratedPdf): void {
+  const url = URL.createObjectURL(pdf.blob)
   window.open(url, '_blank', 'noopener,noreferrer')
+  // The new tab needs the URL until its PDF viewer has loaded the document; release the blob after that.
+  window.setTimeout(() => URL.revokeObjectURL(url), 60_000)
+}
+
+export function downloadPdf(pdf: GeneratedPdf): void {
+  const url = URL.createObjectURL(pdf.blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = pdf.filename
+  a.click()
+  // Give the browser a moment to start the download before releasing the blob.
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000)
 }
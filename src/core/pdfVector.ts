@@ -0,0 +1,476 @@
+import type { jsPDF } from 'jspdf'
+import * as QRCode from 'qrcode'
+import type {
+  AssetResolver,
+  DocumentTemplateV1,
+  EvalContext,
+  FunctionMap,
+  ImageElementV1,
+  LineElementV1,
+  QrElementV1,
+  RectPt,
+  TableCellStyleV1,
+  TableElementV1,
+  TemplateV1Element,
+  TextElementV1,
+  TextStyleV1,
+} from './types'
+import { evalBoolean } from './evaluate'
+import { compileTemplateString, renderTemplateString } from './templateStrings'
+import { getImageRefs, resolveImage } from './assets'
+import {
+  getLineEndpointsPt,
+  getTableColumnWidthsPct,
+  getTableRowHeightPt,
+  layoutDocument,
+  withPageContext,
+  type LaidOutPageV1,
+  type TableSliceV1,
+} from './layout'
+import { ptToPx, pxToPt } from './units'
+import { formatTableCell, getTableCellBorders, getTableCellPaddingPt, getTableRowStyle } from './tableStyle'
+
+export type VectorPdfOptions = {
+  assetResolver?: AssetResolver
+  /** Replaces `ctx.functions` (the built-ins plus host functions from `buildEvalContext`) for this render. */
+  functions?: FunctionMap
+}
+
+type Rgb = [number, number, number]
+
+type PdfFontName = 'helvetica' | 'times' | 'courier'
+
+type LoadedImage = { data: Uint8Array | string; wPt: number; hPt: number }
+
+type DrawState = {
+  pdf: jsPDF
+  ctx: EvalContext
+  functions?: FunctionMap
+  page: LaidOutPageV1
+  images: Map<string, LoadedImage | null>
+  /** Offset added to element rects (non-zero for header/footer bands). */
+  originPt: { xPt: number; yPt: number }
+}
+
+// Defaults mirror what the HTML preview ends up with.
+const DEFAULT_FONT_SIZE_PT = 12
+const DEFAULT_LINE_HEIGHT = 1.15
+const DEFAULT_TEXT_COLOR = '#111827'
+
+function parseColor(value: string | undefined, fallback: string): Rgb {
+  const parse = (raw: string): Rgb | null => {
+    const v = raw.trim().toLowerCase()
+    const short = /^#([0-9a-f])([0-9a-f])([0-9a-f])$/.exec(v)
+    const long = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/.exec(v)
+    const hex = short ? short.slice(1).map((c) => c + c) : long?.slice(1)
+    if (hex) return [parseInt(hex[0]!, 16), parseInt(hex[1]!, 16), parseInt(hex[2]!, 16)]
+    const rgb = /^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/.exec(v)
+    if (rgb) return [Number(rgb[1]), Number(rgb[2]), Number(rgb[3])]
+    if (v === 'white') return [255, 255, 255]
+    if (v === 'black') return [0, 0, 0]
+    return null
+  }
+  return (value ? parse(value) : null) ?? parse(fallback) ?? [0, 0, 0]
+}
+
+// Only the PDF standard fonts are available; map CSS families onto the closest one.
+function getPdfFontName(fontFamily?: string): PdfFontName {
+  const f = (fontFamily ?? '').toLowerCase()
+  if (/mono|courier|consolas|menlo/.test(f)) return 'courier'
+  if (/times|georgia|garamond|(^|[\s,'"])serif/.test(f)) return 'times'
+  return 'helvetica'
+}
+
+function getPdfFontStyle(style: Pick<TextStyleV1, 'fontWeight' | 'fontStyle'>): string {
+  const w = style.fontWeight
+  const bold = w === 'bold' || (typeof w === 'number' && w >= 600)
+  const italic = style.fontStyle === 'italic'
+  if (bold && italic) return 'bolditalic'
+  if (bold) return 'bold'
+  if (italic) return 'italic'
+  return 'normal'
+}
+
+// Same dash lengths as the SVG lines in the HTML preview.
+function getDashPattern(lineStyle: 'solid' | 'dashed' | 'dotted', thicknessPt: number): number[] {
+  const thicknessPx = ptToPx(thicknessPt)
+  const gapPt = pxToPt(Math.max(4, thicknessPx * 2))
+  if (lineStyle === 'dashed') return [pxToPt(Math.max(6, thicknessPx * 4)), gapPt]
+  if (lineStyle === 'dotted') return [pxToPt(Math.max(2, thicknessPx)), gapPt]
+  return []
+}
+
+function offsetRect(rect: RectPt, originPt: DrawState['originPt']): RectPt {
+  return { xPt: rect.xPt + originPt.xPt, yPt: rect.yPt + originPt.yPt, wPt: rect.wPt, hPt: rect.hPt }
+}
+
+function withClip(pdf: jsPDF, rect: RectPt, draw: () => void): void {
+  pdf.saveGraphicsState()
+  pdf.rect(rect.xPt, rect.yPt, rect.wPt, rect.hPt, null)
+  pdf.clip()
+  pdf.discardPath()
+  try {
+    draw()
+  } finally {
+    pdf.restoreGraphicsState()
+  }
+}
+
+function strokeLine(
+  pdf: jsPDF,
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+  widthPt: number,
+  color: Rgb,
+  lineStyle: 'solid' | 'dashed' | 'dotted' = 'solid',
+): void {
+  pdf.setLineWidth(widthPt)
+  pdf.setDrawColor(...color)
+  pdf.setLineDashPattern(getDashPattern(lineStyle, widthPt), 0)
+  pdf.setLineCap(lineStyle === 'dotted' ? 'round' : 'butt')
+  pdf.line(x1, y1, x2, y2)
+  pdf.setLineDashPattern([], 0)
+}
+
+function truncateToWidth(pdf: jsPDF, text: string, maxWPt: number): string {
+  if (pdf.getTextWidth(text) <= maxWPt) return text
+  let out = text
+  while (out && pdf.getTextWidth(`${out}…`) > maxWPt) out = out.slice(0, -1)
+  return `${out}…`
+}
+
+function wrapText(pdf: jsPDF, text: string, maxWPt: number): string[] {
+  // pre-wrap: explicit newlines always break, long lines wrap at the box width.
+  return text.split('\n').flatMap((p) => (p ? (pdf.splitTextToSize(p, Math.max(1, maxWPt)) as string[]) : ['']))
+}
+
+function drawText(s: DrawState, el: TextElementV1): void {
+  const { pdf } = s
+  const style = el.style ?? {}
+  const rect = offsetRect(el.rect, s.originPt)
+  const fontSizePt = style.fontSizePt ?? DEFAULT_FONT_SIZE_PT
+  const lineHPt = fontSizePt * (style.lineHeight ?? DEFAULT_LINE_HEIGHT)
+
+  const borderWPt = style.borderWidthPt != null && style.borderWidthPt > 0 ? style.borderWidthPt : 0
+  const sides = style.borderSides ?? { top: true, right: true, bottom: true, left: true }
+  const inset = {
+    top: sides.top ? borderWPt : 0,
+    right: sides.right ? borderWPt : 0,
+    bottom: sides.bottom ? borderWPt : 0,
+    left: sides.left ? borderWPt : 0,
+  }
+
+  pdf.setFont(getPdfFontName(style.fontFamily), getPdfFontStyle(style))
+  pdf.setFontSize(fontSizePt)
+  const color = parseColor(style.color, DEFAULT_TEXT_COLOR)
+  pdf.setTextColor(...color)
+
+  const innerXPt = rect.xPt + inset.left
+  const innerWPt = rect.wPt - inset.left - inset.right
+  const text = renderTemplateString(el.textTpl, s.ctx, s.functions)
+  const lines = wrapText(pdf, text, innerWPt)
+  const align = style.textAlign ?? 'left'
+  const xPt = align === 'center' ? innerXPt + innerWPt / 2 : align === 'right' ? innerXPt + innerWPt : innerXPt
+
+  withClip(pdf, rect, () => {
+    lines.forEach((line, i) => {
+      const yPt = rect.yPt + inset.top + i * lineHPt + (lineHPt - fontSizePt) / 2
+      pdf.text(line, xPt, yPt, { baseline: 'top', align })
+
+      if (style.textDecoration === 'underline' && line) {
+        const wPt = pdf.getTextWidth(line)
+        const startPt = align === 'center' ? xPt - wPt / 2 : align === 'right' ? xPt - wPt : xPt
+        const underlineYPt = yPt + fontSizePt * 0.95
+        strokeLine(pdf, startPt, underlineYPt, startPt + wPt, underlineYPt, fontSizePt / 15, color)
+      }
+    })
+  })
+
+  if (borderWPt > 0) {
+    const borderColor = parseColor(style.borderColor, DEFAULT_TEXT_COLOR)
+    const borderStyle = style.borderStyle ?? 'solid'
+    const half = borderWPt / 2
+    const { xPt: x, yPt: y, wPt: w, hPt: h } = rect
+    if (sides.top) strokeLine(pdf, x, y + half, x + w, y + half, borderWPt, borderColor, borderStyle)
+    if (sides.right) strokeLine(pdf, x + w - half, y, x + w - half, y + h, borderWPt, borderColor, borderStyle)
+    if (sides.bottom) strokeLine(pdf, x, y + h - half, x + w, y + h - half, borderWPt, borderColor, borderStyle)
+    if (sides.left) strokeLine(pdf, x + half, y, x + half, y + h, borderWPt, borderColor, borderStyle)
+  }
+}
+
+function drawLine(s: DrawState, el: LineElementV1): void {
+  const { x1Pt, y1Pt, x2Pt, y2Pt } = getLineEndpointsPt(el)
+  const { xPt: ox, yPt: oy } = s.originPt
+  strokeLine(
+    s.pdf,
+    x1Pt + ox,
+    y1Pt + oy,
+    x2Pt + ox,
+    y2Pt + oy,
+    el.thicknessPt ?? 1,
+    parseColor(el.color, DEFAULT_TEXT_COLOR),
+    el.lineStyle ?? 'solid',
+  )
+}
+
+function drawImage(s: DrawState, el: ImageElementV1): void {
+  const image = s.images.get(el.imageRef)
+  if (!image) return
+
+  const { pdf } = s
+  const rect = offsetRect(el.rect, s.originPt)
+  const fit = el.fit ?? 'contain'
+
+  let wPt = rect.wPt
+  let hPt = rect.hPt
+  if (fit !== 'stretch') {
+    const scaleX = rect.wPt / image.wPt
+    const scaleY = rect.hPt / image.hPt
+    // 'contain' never upscales, like max-width/max-height in the preview.
+    const scale = fit === 'cover' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY, 1)
+    wPt = image.wPt * scale
+    hPt = image.hPt * scale
+  }
+  const xPt = rect.xPt + (rect.wPt - wPt) / 2
+  const yPt = rect.yPt + (rect.hPt - hPt) / 2
+
+  const opacity = typeof el.opacity === 'number' ? Math.max(0, Math.min(1, el.opacity)) : 1
+
+  withClip(pdf, rect, () => {
+    // GState is a constructor at runtime, but jsPDF's typings declare it as a plain method.
+    if (opacity < 1) pdf.setGState(new (pdf as any).GState({ opacity }))
+    // The alias lets jsPDF embed an image once even if it repeats on every page.
+    pdf.addImage(image.data, '', xPt, yPt, wPt, hPt, `img:${el.imageRef}`)
+  })
+}
+
+function drawQr(s: DrawState, el: QrElementV1): void {
+  const { pdf } = s
+  const rect = offsetRect(el.rect, s.originPt)
+
+  pdf.setFillColor(...parseColor(el.bgColor, '#ffffff'))
+  pdf.rect(rect.xPt, rect.yPt, rect.wPt, rect.hPt, 'F')
+
+  const data = renderTemplateString(el.dataTpl ?? '', s.ctx, s.functions)
+  if (!data) return
+
+  let qr: QRCode.QRCode
+  try {
+    qr = QRCode.create(data, { errorCorrectionLevel: el.ecc })
+  } catch {
+    return
+  }
+
+  const margin = el.marginModules ?? 4
+  const size = qr.modules.size
+  const sidePt = Math.min(rect.wPt, rect.hPt)
+  const modulePt = sidePt / (size + margin * 2)
+  const x0 = rect.xPt + (rect.wPt - sidePt) / 2 + margin * modulePt
+  const y0 = rect.yPt + (rect.hPt - sidePt) / 2 + margin * modulePt
+
+  pdf.setFillColor(...parseColor(el.fgColor, '#000000'))
+  for (let row = 0; row < size; row += 1) {
+    // Draw runs of dark modules as one rect to keep the content stream small.
+    let col = 0
+    while (col < size) {
+      if (!qr.modules.get(row, col)) {
+        col += 1
+        continue
+      }
+      const start = col
+      while (col < size && qr.modules.get(row, col)) col += 1
+      pdf.rect(x0 + start * modulePt, y0 + row * modulePt, (col - start) * modulePt, modulePt, 'F')
+    }
+  }
+}
+
+function drawTable(s: DrawState, el: TableElementV1, slice: TableSliceV1): void {
+  const { pdf } = s
+  const rect = offsetRect(el.rect, s.originPt)
+  const fontSizePt = el.fontSizePt ?? DEFAULT_FONT_SIZE_PT
+  const lineHPt = fontSizePt * DEFAULT_LINE_HEIGHT
+  const paddingPt = getTableCellPaddingPt(el)
+  const paginate = el.overflow === 'paginate'
+  const hasHeader = el.headerRow !== false
+  const widths = getTableColumnWidthsPct(el).map((pct) => (pct / 100) * rect.wPt)
+
+  const caption =
+    slice.continued && el.continuedCaption ? renderTemplateString(el.continuedCaption, s.ctx, s.functions) : null
+  const naturalRowHPt = getTableRowHeightPt(el)
+  const rowCount = slice.rows.length + (hasHeader ? 1 : 0)
+  // In clip mode the HTML table is stretched to the element height, which spreads the rows out.
+  const rowHPt = paginate || rowCount === 0 ? naturalRowHPt : Math.max(naturalRowHPt, rect.hPt / rowCount)
+
+  // `rowIdx` counts the drawn rows from the top, header included (see getTableCellBorders).
+  const drawRow = (cells: string[], yPt: number, rowIdx: number, style: TableCellStyleV1, header: boolean) => {
+    let xPt = rect.xPt
+    cells.forEach((text, i) => {
+      const wPt = widths[i]!
+      const cell: RectPt = { xPt, yPt, wPt, hPt: rowHPt }
+      const innerWPt = Math.max(0, wPt - paddingPt * 2)
+      const align = el.columns[i]!.align ?? 'left'
+
+      if (style.background) {
+        pdf.setFillColor(...parseColor(style.background, '#ffffff'))
+        pdf.rect(cell.xPt, cell.yPt, cell.wPt, cell.hPt, 'F')
+      }
+
+      withClip(pdf, cell, () => {
+        pdf.setFont('helvetica', getPdfFontStyle(style))
+        pdf.setFontSize(fontSizePt)
+        pdf.setTextColor(...parseColor(style.color, DEFAULT_TEXT_COLOR))
+        const lines = paginate ? [truncateToWidth(pdf, text, innerWPt)] : wrapText(pdf, text, innerWPt)
+        const textHPt = lines.length * lineHPt
+        // Header cells are vertically centred, body cells follow `verticalAlign`.
+        const verticalAlign = header ? 'middle' : (el.verticalAlign ?? 'top')
+        let topPt = yPt + paddingPt
+        if (verticalAlign === 'middle') topPt = yPt + (rowHPt - textHPt) / 2
+        if (verticalAlign === 'bottom') topPt = yPt + rowHPt - paddingPt - textHPt
+        let textXPt = xPt + paddingPt
+        if (align === 'center') textXPt = xPt + wPt / 2
+        if (align === 'right') textXPt = xPt + wPt - paddingPt
+        lines.forEach((line, li) => {
+          const lineYPt = topPt + li * lineHPt + (lineHPt - fontSizePt) / 2
+          pdf.text(line, textXPt, lineYPt, { baseline: 'top', align })
+        })
+      })
+
+      const borders = getTableCellBorders(el, rowIdx, rowCount, i)
+      const { yPt: y, hPt: h } = cell
+      const edges = [
+        [borders.top, xPt, y, xPt + wPt, y],
+        [borders.right, xPt + wPt, y, xPt + wPt, y + h],
+        [borders.bottom, xPt, y + h, xPt + wPt, y + h],
+        [borders.left, xPt, y, xPt, y + h],
+      ] as const
+      for (const [border, x1, y1, x2, y2] of edges) {
+        if (border.widthPt > 0) strokeLine(pdf, x1, y1, x2, y2, border.widthPt, parseColor(border.color, '#000000'))
+      }
+      xPt += wPt
+    })
+  }
+
+  withClip(pdf, rect, () => {
+    let yPt = rect.yPt
+
+    if (caption != null) {
+      pdf.setFont('helvetica', 'italic')
+      pdf.setFontSize(fontSizePt)
+      pdf.setTextColor(...parseColor(undefined, DEFAULT_TEXT_COLOR))
+      pdf.text(truncateToWidth(pdf, caption, rect.wPt), rect.xPt, yPt + (naturalRowHPt - fontSizePt) / 2, {
+        baseline: 'top',
+      })
+      yPt += naturalRowHPt
+    }
+
+    if (hasHeader) {
+      const headerStyle: TableCellStyleV1 = { fontWeight: 'bold', ...el.headerStyle }
+      drawRow(
+        el.columns.map((c) => c.header ?? c.key),
+        yPt,
+        0,
+        headerStyle,
+        true,
+      )
+      yPt += rowHPt
+    }
+
+    const cellTpls = el.columns.map((c) => compileTemplateString(c.cellTpl))
+    slice.rows.forEach((row, idx) => {
+      if (yPt >= rect.yPt + rect.hPt) return
+      const rowCtx = { ...s.ctx, row }
+      drawRow(
+        cellTpls.map((render, i) => formatTableCell(render(rowCtx, s.functions), el.columns[i]!, s.ctx.locale)),
+        yPt,
+        idx + (hasHeader ? 1 : 0),
+        getTableRowStyle(el, rowCtx, slice.startIndex + idx, s.functions),
+        false,
+      )
+      yPt += rowHPt
+    })
+  })
+}
+
+function drawElements(s: DrawState, elements: TemplateV1Element[]): void {
+  const sorted = [...elements].sort((a, b) => (a.rect.z ?? 0) - (b.rect.z ?? 0))
+  for (const el of sorted) {
+    if (!evalBoolean(el.visibleIf, s.ctx, s.functions)) continue
+
+    if (el.type === 'text') drawText(s, el)
+    else if (el.type === 'line') drawLine(s, el)
+    else if (el.type === 'image') drawImage(s, el)
+    else if (el.type === 'qr') drawQr(s, el)
+    else if (el.type === 'table') {
+      const slice = s.page.tables[el.id]
+      if (slice) drawTable(s, el, slice)
+    }
+  }
+}
+
+async function loadImageData(url: string): Promise<Uint8Array | string> {
+  if (url.startsWith('data:')) return url
+  const res = await fetch(url)
+  if (!res.ok) throw new Error(`Failed to load image ${url}: ${res.status}`)
+  return new Uint8Array(await res.arrayBuffer())
+}
+
+async function loadImages(
+  pdf: jsPDF,
+  template: DocumentTemplateV1,
+  assetResolver?: AssetResolver,
+): Promise<Map<string, LoadedImage | null>> {
+  const entries = await Promise.all(
+    getImageRefs(template).map(async (ref) => {
+      try {
+        const data = await loadImageData(await resolveImage(ref, assetResolver))
+        const props = pdf.getImageProperties(data)
+        // Natural size in CSS pixels, as the preview lays it out.
+        return [ref, { data, wPt: pxToPt(props.width), hPt: pxToPt(props.height) }] as const
+      } catch {
+        // Unresolvable or unsupported images are skipped, like broken images in the preview.
+        return [ref, null] as const
+      }
+    }),
+  )
+
+  return new Map(entries)
+}
+
+/**
+ * Draws the document with PDF primitives (real, selectable text) instead of capturing the preview DOM.
+ * Uses the same layout pass as `DocumentPreview`, so pagination matches the preview.
+ */
+export async function renderVectorPdf(
+  template: DocumentTemplateV1,
+  ctx: EvalContext,
+  options: VectorPdfOptions = {},
+): Promise<jsPDF> {
+  const { jsPDF } = await import('jspdf')
+
+  const pages = layoutDocument(template, ctx, options.functions)
+  const first = pages[0]!
+  const pdf = new jsPDF({ unit: 'pt', format: [first.wPt, first.hPt], orientation: first.page.orientation })
+  const images = await loadImages(pdf, template, options.assetResolver)
+
+  pages.forEach((page, i) => {
+    if (i > 0) pdf.addPage([page.wPt, page.hPt], page.page.orientation)
+
+    const s: DrawState = {
+      pdf,
+      ctx: withPageContext(ctx, page),
+      functions: options.functions,
+      page,
+      images,
+      originPt: { xPt: 0, yPt: 0 },
+    }
+    drawElements(s, page.elements)
+    for (const band of [page.header, page.footer]) {
+      if (!band) continue
+      withClip(pdf, band.rect, () => drawElements({ ...s, originPt: band.rect }, band.elements))
+    }
+  })
+
+  return pdf
+}
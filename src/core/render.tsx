@@ -7,20 +7,33 @@ import type {
   ImageElementV1,
   LineElementV1,
   QrElementV1,
+  TableCellStyleV1,
   TableElementV1,
   TemplateV1Element,
   TextElementV1,
 } from './types'
-import { renderTemplateString } from './templateStrings'
-import { getPageSizePt, ptToPx } from './units'
+import { compileTemplateString, renderTemplateString } from './templateStrings'
+import { getImageRefs, resolveImage } from './assets'
+import { ptToPx } from './units'
 import { evalBoolean } from './evaluate'
-import { evalExpression } from './expr'
-
-async function resolveImage(imageRef: string, resolver?: AssetResolver): Promise<string> {
-  if (!resolver) return imageRef
-  const out = resolver(imageRef)
-  return typeof out === 'string' ? out : await out
-}
+import { type PageBandKind, type ResolvedPageBandV1 } from './pages'
+import {
+  formatTableCell,
+  getTableCellBorders,
+  getTableCellPaddingPt,
+  getTableRowStyle,
+  type ResolvedTableBorder,
+  type TableEdge,
+} from './tableStyle'
+import {
+  getLineEndpointsPt,
+  getTableColumnWidthsPct,
+  getTableRowHeightPt,
+  layoutDocument,
+  withPageContext,
+  type LaidOutPageV1,
+  type TableSliceV1,
+} from './layout'
 
 function rectStyle(rect: { xPt: number; yPt: number; wPt: number; hPt: number; z?: number }): React.CSSProperties {
   return {
@@ -36,6 +49,8 @@ function rectStyle(rect: { xPt: number; yPt: number; wPt: number; hPt: number; z
 
 export type PreviewInteraction = {
   selectedId?: string | null
+  /** Page that alignment/spacing guides are drawn on (defaults to the first page). */
+  activePageIndex?: number
   onElementPointerDown?: (id: string, e: React.PointerEvent) => void
   onElementClick?: (id: string) => void
   onLineEndpointPointerDown?: (id: string, endpoint: 'start' | 'end', e: React.PointerEvent) => void
@@ -48,35 +63,47 @@ export type PreviewInteraction = {
     handle: 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w' | 'nw',
     e: React.PointerEvent,
   ) => void
+  /** Drag on the border between table columns `colIdx` and `colIdx + 1` of the selected table. */
+  onTableColumnResizePointerDown?: (id: string, colIdx: number, e: React.PointerEvent) => void
 }
 
-function getLineEndpointsPt(el: LineElementV1): { x1Pt: number; y1Pt: number; x2Pt: number; y2Pt: number } {
-  const hasExplicit =
-    typeof el.x1Pt === 'number' &&
-    typeof el.y1Pt === 'number' &&
-    typeof el.x2Pt === 'number' &&
-    typeof el.y2Pt === 'number'
-
-  if (hasExplicit) {
-    return { x1Pt: el.x1Pt!, y1Pt: el.y1Pt!, x2Pt: el.x2Pt!, y2Pt: el.y2Pt! }
-  }
-
-  const isHorizontal = el.rect.wPt >= el.rect.hPt
-  if (isHorizontal) {
-    return {
-      x1Pt: el.rect.xPt,
-      y1Pt: el.rect.yPt,
-      x2Pt: el.rect.xPt + el.rect.wPt,
-      y2Pt: el.rect.yPt,
-    }
-  }
-
-  return {
-    x1Pt: el.rect.xPt,
-    y1Pt: el.rect.yPt,
-    x2Pt: el.rect.xPt,
-    y2Pt: el.rect.yPt + el.rect.hPt,
-  }
+const RESIZE_HANDLES = [
+  { key: 'nw', left: 0, top: 0, cursor: 'nwse-resize' },
+  { key: 'n', left: '50%', top: 0, cursor: 'ns-resize' },
+  { key: 'ne', left: '100%', top: 0, cursor: 'nesw-resize' },
+  { key: 'e', left: '100%', top: '50%', cursor: 'ew-resize' },
+  { key: 'se', left: '100%', top: '100%', cursor: 'nwse-resize' },
+  { key: 's', left: '50%', top: '100%', cursor: 'ns-resize' },
+  { key: 'sw', left: 0, top: '100%', cursor: 'nesw-resize' },
+  { key: 'w', left: 0, top: '50%', cursor: 'ew-resize' },
+] as const
+
+/** Corner and edge handles of the selected element (Designer only). */
+function ResizeHandles({ id, interaction }: { id: string; interaction?: PreviewInteraction }) {
+  if (interaction?.selectedId !== id || !interaction.onElementResizePointerDown) return null
+  return (
+    <>
+      {RESIZE_HANDLES.map((h) => (
+        <div
+          key={h.key}
+          onPointerDown={(e) => interaction.onElementResizePointerDown?.(id, h.key, e)}
+          style={{
+            position: 'absolute',
+            left: h.left,
+            top: h.top,
+            transform: 'translate(-50%, -50%)',
+            width: 10,
+            height: 10,
+            borderRadius: 999,
+            background: '#ffffff',
+            border: '2px solid #6366F1',
+            boxSizing: 'border-box',
+            cursor: h.cursor,
+          }}
+        />
+      ))}
+    </>
+  )
 }
 
 function TextEl({
@@ -132,40 +159,7 @@ function TextEl({
     >
       {text}
 
-      {interaction?.selectedId === el.id && interaction.onElementResizePointerDown && (
-        <>
-          {(
-            [
-              { key: 'nw', left: 0, top: 0, cursor: 'nwse-resize' },
-              { key: 'n', left: '50%', top: 0, cursor: 'ns-resize' },
-              { key: 'ne', left: '100%', top: 0, cursor: 'nesw-resize' },
-              { key: 'e', left: '100%', top: '50%', cursor: 'ew-resize' },
-              { key: 'se', left: '100%', top: '100%', cursor: 'nwse-resize' },
-              { key: 's', left: '50%', top: '100%', cursor: 'ns-resize' },
-              { key: 'sw', left: 0, top: '100%', cursor: 'nesw-resize' },
-              { key: 'w', left: 0, top: '50%', cursor: 'ew-resize' },
-            ] as const
-          ).map((h) => (
-            <div
-              key={h.key}
-              onPointerDown={(e) => interaction.onElementResizePointerDown?.(el.id, h.key, e)}
-              style={{
-                position: 'absolute',
-                left: h.left,
-                top: h.top,
-                transform: 'translate(-50%, -50%)',
-                width: 10,
-                height: 10,
-                borderRadius: 999,
-                background: '#ffffff',
-                border: '2px solid #6366F1',
-                boxSizing: 'border-box',
-                cursor: h.cursor,
-              }}
-            />
-          ))}
-        </>
-      )}
+      <ResizeHandles id={el.id} interaction={interaction} />
     </div>
   )
 }
@@ -258,17 +252,65 @@ function LineEl({ el, interaction }: { el: LineElementV1; interaction?: PreviewI
   )
 }
 
-function TableEl({ el, ctx, interaction }: { el: TableElementV1; ctx: EvalContext; interaction?: PreviewInteraction }) {
-  let rows: unknown[] = []
-  try {
-    const v = evalExpression(el.rowsExpr, ctx)
-    if (Array.isArray(v)) rows = v
-  } catch {
-    rows = []
+function tableCellBorderStyle(borders: Record<TableEdge, ResolvedTableBorder>): React.CSSProperties {
+  const side = (b: ResolvedTableBorder) => (b.widthPt > 0 ? `${ptToPx(b.widthPt)}px solid ${b.color}` : 'none')
+  return {
+    borderTop: side(borders.top),
+    borderRight: side(borders.right),
+    borderBottom: side(borders.bottom),
+    borderLeft: side(borders.left),
   }
+}
+
+function tableCellTextStyle(style: TableCellStyleV1): React.CSSProperties {
+  return {
+    background: style.background,
+    color: style.color,
+    fontWeight: style.fontWeight,
+    fontStyle: style.fontStyle,
+  }
+}
 
+function TableEl({
+  el,
+  ctx,
+  slice,
+  interaction,
+}: {
+  el: TableElementV1
+  ctx: EvalContext
+  slice: TableSliceV1
+  interaction?: PreviewInteraction
+}) {
   const fontSizePx = el.fontSizePt ? ptToPx(el.fontSizePt) : undefined
   const cols = el.columns
+  const widthsPct = getTableColumnWidthsPct(el)
+  const paddingPx = ptToPx(getTableCellPaddingPt(el))
+  // Compiled once per column rather than looked up for every cell.
+  const cellTpls = cols.map((c) => compileTemplateString(c.cellTpl))
+  const hasHeader = el.headerRow !== false
+  const rowCount = slice.rows.length + (hasHeader ? 1 : 0)
+
+  // Paginated tables use fixed row heights so the layout pass can predict how many rows fit on a page.
+  const paginate = el.overflow === 'paginate'
+  const rowHPx = paginate ? ptToPx(getTableRowHeightPt(el)) : undefined
+  const fixedCell = (content: React.ReactNode) =>
+    paginate ? (
+      <div
+        style={{
+          maxHeight: rowHPx! - paddingPx * 2,
+          overflow: 'hidden',
+          whiteSpace: 'nowrap',
+          textOverflow: 'ellipsis',
+        }}
+      >
+        {content}
+      </div>
+    ) : (
+      content
+    )
+
+  const caption = slice.continued && el.continuedCaption ? renderTemplateString(el.continuedCaption, ctx) : null
 
   return (
     <div
@@ -282,52 +324,94 @@ function TableEl({ el, ctx, interaction }: { el: TableElementV1; ctx: EvalContex
       onPointerDown={(e) => interaction?.onElementPointerDown?.(el.id, e)}
       onClick={() => interaction?.onElementClick?.(el.id)}
     >
+      {caption != null && (
+        <div style={{ height: rowHPx, fontSize: fontSizePx, fontStyle: 'italic', overflow: 'hidden' }}>{caption}</div>
+      )}
       <table
         style={{
           width: '100%',
-          height: '100%',
+          height: paginate ? undefined : '100%',
           borderCollapse: 'collapse',
+          // Fixed layout keeps the columns at their widths (as in the PDF) instead of sizing them to the content.
+          tableLayout: 'fixed',
           fontSize: fontSizePx,
         }}
       >
-        {el.headerRow !== false && (
+        <colgroup>
+          {cols.map((c, colIdx) => (
+            <col key={c.key} style={{ width: `${widthsPct[colIdx]}%` }} />
+          ))}
+        </colgroup>
+        {hasHeader && (
           <thead>
-            <tr>
-              {cols.map((c) => (
+            <tr style={{ height: rowHPx }}>
+              {cols.map((c, colIdx) => (
                 <th
                   key={c.key}
                   style={{
-                    border: el.border === false ? 'none' : '1px solid #E5E7EB',
-                    textAlign: 'left',
-                    padding: '4px',
-                    width: c.widthPct ? `${c.widthPct}%` : undefined,
+                    ...tableCellBorderStyle(getTableCellBorders(el, 0, rowCount, colIdx)),
+                    ...tableCellTextStyle({ fontWeight: 'bold', ...el.headerStyle }),
+                    textAlign: c.align ?? 'left',
+                    verticalAlign: 'middle',
+                    padding: paddingPx,
+                    overflowWrap: 'anywhere',
                   }}
                 >
-                  {c.header ?? c.key}
+                  {fixedCell(c.header ?? c.key)}
                 </th>
               ))}
             </tr>
           </thead>
         )}
         <tbody>
-          {rows.map((row, idx) => (
-            <tr key={idx}>
-              {cols.map((c) => (
-                <td
-                  key={c.key}
-                  style={{
-                    border: el.border === false ? 'none' : '1px solid #E5E7EB',
-                    padding: '4px',
-                    verticalAlign: 'top',
-                  }}
-                >
-                  {renderTemplateString(c.cellTpl, { ...ctx, row })}
-                </td>
-              ))}
-            </tr>
-          ))}
+          {slice.rows.map((row, idx) => {
+            const index = slice.startIndex + idx
+            const rowIdx = idx + (hasHeader ? 1 : 0)
+            const rowCtx = { ...ctx, row }
+            const rowStyle = getTableRowStyle(el, rowCtx, index)
+            return (
+              <tr key={index} style={{ height: rowHPx }}>
+                {cols.map((c, colIdx) => (
+                  <td
+                    key={c.key}
+                    style={{
+                      ...tableCellBorderStyle(getTableCellBorders(el, rowIdx, rowCount, colIdx)),
+                      ...tableCellTextStyle(rowStyle),
+                      textAlign: c.align ?? 'left',
+                      verticalAlign: el.verticalAlign ?? 'top',
+                      padding: paddingPx,
+                      overflowWrap: 'anywhere',
+                    }}
+                  >
+                    {fixedCell(formatTableCell(cellTpls[colIdx]!(rowCtx), c, ctx.locale))}
+                  </td>
+                ))}
+              </tr>
+            )
+          })}
         </tbody>
       </table>
+
+      {interaction?.selectedId === el.id &&
+        interaction.onTableColumnResizePointerDown &&
+        cols.slice(0, -1).map((c, colIdx) => (
+          <div
+            key={c.key}
+            title="Drag to resize columns"
+            onPointerDown={(e) => interaction.onTableColumnResizePointerDown?.(el.id, colIdx, e)}
+            style={{
+              position: 'absolute',
+              top: 0,
+              bottom: 0,
+              left: `${widthsPct.slice(0, colIdx + 1).reduce((sum, w) => sum + w, 0)}%`,
+              width: 8,
+              transform: 'translateX(-50%)',
+              cursor: 'col-resize',
+              background: 'rgba(99, 102, 241, 0.25)',
+            }}
+          />
+        ))}
+      <ResizeHandles id={el.id} interaction={interaction} />
     </div>
   )
 }
@@ -373,40 +457,7 @@ function ImageEl({ el, url, interaction }: { el: ImageElementV1; url: string; in
         crossOrigin="anonymous"
       />
 
-      {interaction?.selectedId === el.id && interaction.onElementResizePointerDown && (
-        <>
-          {(
-            [
-              { key: 'nw', left: 0, top: 0, cursor: 'nwse-resize' },
-              { key: 'n', left: '50%', top: 0, cursor: 'ns-resize' },
-              { key: 'ne', left: '100%', top: 0, cursor: 'nesw-resize' },
-              { key: 'e', left: '100%', top: '50%', cursor: 'ew-resize' },
-              { key: 'se', left: '100%', top: '100%', cursor: 'nwse-resize' },
-              { key: 's', left: '50%', top: '100%', cursor: 'ns-resize' },
-              { key: 'sw', left: 0, top: '100%', cursor: 'nesw-resize' },
-              { key: 'w', left: 0, top: '50%', cursor: 'ew-resize' },
-            ] as const
-          ).map((h) => (
-            <div
-              key={h.key}
-              onPointerDown={(e) => interaction.onElementResizePointerDown?.(el.id, h.key, e)}
-              style={{
-                position: 'absolute',
-                left: h.left,
-                top: h.top,
-                transform: 'translate(-50%, -50%)',
-                width: 10,
-                height: 10,
-                borderRadius: 999,
-                background: '#ffffff',
-                border: '2px solid #6366F1',
-                boxSizing: 'border-box',
-                cursor: h.cursor,
-              }}
-            />
-          ))}
-        </>
-      )}
+      <ResizeHandles id={el.id} interaction={interaction} />
     </div>
   )
 }
@@ -437,142 +488,92 @@ function QrEl({ el, url, interaction }: { el: QrElementV1; url: string; interact
         />
       ) : null}
 
-      {interaction?.selectedId === el.id && interaction.onElementResizePointerDown && (
-        <>
-          {(
-            [
-              { key: 'nw', left: 0, top: 0, cursor: 'nwse-resize' },
-              { key: 'n', left: '50%', top: 0, cursor: 'ns-resize' },
-              { key: 'ne', left: '100%', top: 0, cursor: 'nesw-resize' },
-              { key: 'e', left: '100%', top: '50%', cursor: 'ew-resize' },
-              { key: 'se', left: '100%', top: '100%', cursor: 'nwse-resize' },
-              { key: 's', left: '50%', top: '100%', cursor: 'ns-resize' },
-              { key: 'sw', left: 0, top: '100%', cursor: 'nesw-resize' },
-              { key: 'w', left: 0, top: '50%', cursor: 'ew-resize' },
-            ] as const
-          ).map((h) => (
-            <div
-              key={h.key}
-              onPointerDown={(e) => interaction.onElementResizePointerDown?.(el.id, h.key, e)}
-              style={{
-                position: 'absolute',
-                left: h.left,
-                top: h.top,
-                transform: 'translate(-50%, -50%)',
-                width: 10,
-                height: 10,
-                borderRadius: 999,
-                background: '#ffffff',
-                border: '2px solid #6366F1',
-                boxSizing: 'border-box',
-                cursor: h.cursor,
-              }}
-            />
-          ))}
-        </>
-      )}
+      <ResizeHandles id={el.id} interaction={interaction} />
     </div>
   )
 }
 
+function qrKey(page: LaidOutPageV1, el: QrElementV1): string {
+  return `${page.id}/${el.id}`
+}
+
+function getPageQrElements(page: LaidOutPageV1): QrElementV1[] {
+  return [...page.elements, ...(page.header?.elements ?? []), ...(page.footer?.elements ?? [])].filter(
+    (e): e is QrElementV1 => e.type === 'qr',
+  )
+}
+
 function sortElements(elements: TemplateV1Element[]): TemplateV1Element[] {
   return [...elements].sort((a, b) => (a.rect.z ?? 0) - (b.rect.z ?? 0))
 }
 
-export function DocumentPreview({
-  template,
+function PageBand({
+  kind,
+  band,
+  render,
+}: {
+  kind: PageBandKind
+  band: ResolvedPageBandV1
+  render: (elements: TemplateV1Element[]) => React.ReactNode
+}) {
+  // Band elements are positioned relative to the band, which sits inside the page margins.
+  return (
+    <div data-doc-band={kind} style={{ ...rectStyle(band.rect), zIndex: undefined, overflow: 'hidden' }}>
+      {render(band.elements)}
+    </div>
+  )
+}
+
+function PreviewPage({
+  page,
   ctx,
-  assetResolver,
-  className,
+  imageUrls,
+  qrUrls,
   interaction,
+  showGuides,
 }: {
-  template: DocumentTemplateV1
+  page: LaidOutPageV1
   ctx: EvalContext
-  assetResolver?: AssetResolver
-  className?: string
+  imageUrls: Record<string, string>
+  qrUrls: Record<string, string>
   interaction?: PreviewInteraction
+  showGuides: boolean
 }) {
-  const { wPt, hPt } = getPageSizePt(template.page.size, template.page.orientation, template.page.customSizePt)
-  const wPx = ptToPx(wPt)
-  const hPx = ptToPx(hPt)
-
-  const [imageUrls, setImageUrls] = React.useState<Record<string, string>>({})
-  const [qrUrls, setQrUrls] = React.useState<Record<string, string>>({})
-
-  React.useEffect(() => {
-    let cancelled = false
-
-    const load = async () => {
-      const refs = new Set<string>()
-      for (const el of template.elements) {
-        if (el.type === 'image') refs.add(el.imageRef)
+  const wPx = ptToPx(page.wPt)
+  const hPx = ptToPx(page.hPt)
+  const alignmentGuidesPt = showGuides ? interaction?.alignmentGuidesPt : undefined
+  const spacingGuidesPt = showGuides ? interaction?.spacingGuidesPt : undefined
+  const pageCtx = React.useMemo(() => withPageContext(ctx, page), [ctx, page])
+
+  const renderElements = (elements: TemplateV1Element[]) =>
+    sortElements(elements).map((el) => {
+      if (!evalBoolean(el.visibleIf, pageCtx)) return null
+
+      if (el.type === 'text') return <TextEl key={el.id} el={el} ctx={pageCtx} interaction={interaction} />
+      if (el.type === 'line') return <LineEl key={el.id} el={el} interaction={interaction} />
+      if (el.type === 'table') {
+        const slice = page.tables[el.id]
+        return slice ? <TableEl key={el.id} el={el} ctx={pageCtx} slice={slice} interaction={interaction} /> : null
+      }
+      if (el.type === 'image') {
+        const url = imageUrls[el.imageRef]
+        return url ? <ImageEl key={el.id} el={el} url={url} interaction={interaction} /> : null
       }
 
-      const entries = await Promise.all(
-        [...refs].map(async (ref) => {
-          try {
-            const url = await resolveImage(ref, assetResolver)
-            return [ref, url] as const
-          } catch {
-            return [ref, ''] as const
-          }
-        }),
-      )
-
-      if (!cancelled) setImageUrls(Object.fromEntries(entries))
-    }
-
-    load()
-    return () => {
-      cancelled = true
-    }
-  }, [template, assetResolver])
-
-  React.useEffect(() => {
-    let cancelled = false
-
-    const load = async () => {
-      const entries = await Promise.all(
-        template.elements
-          .filter((e): e is QrElementV1 => e.type === 'qr')
-          .map(async (el) => {
-            try {
-              const data = String(renderTemplateString(el.dataTpl ?? '', ctx) ?? '')
-              if (!data) return [el.id, ''] as const
-
-              const sizePx = Math.max(ptToPx(el.rect.wPt), ptToPx(el.rect.hPt))
-              const width = Math.max(64, Math.ceil(sizePx * 2))
-
-              const url = await QRCode.toDataURL(data, {
-                width,
-                margin: el.marginModules,
-                errorCorrectionLevel: el.ecc,
-                color: {
-                  dark: el.fgColor ?? '#000000',
-                  light: el.bgColor ?? '#ffffff',
-                },
-              })
-
-              return [el.id, url] as const
-            } catch {
-              return [el.id, ''] as const
-            }
-          }),
-      )
-
-      if (!cancelled) setQrUrls(Object.fromEntries(entries))
-    }
+      if (el.type === 'qr') {
+        const url = qrUrls[qrKey(page, el)]
+        return <QrEl key={el.id} el={el} url={url ?? ''} interaction={interaction} />
+      }
 
-    load()
-    return () => {
-      cancelled = true
-    }
-  }, [template, ctx])
+      return null
+    })
 
   return (
     <div
-      data-doc-root
-      className={className}
+      data-doc-page={page.index + 1}
+      data-page-w-pt={page.wPt}
+      data-page-h-pt={page.hPt}
+      data-page-orientation={page.page.orientation}
       style={{
         width: wPx,
         height: hPx,
@@ -582,7 +583,7 @@ export function DocumentPreview({
         overflow: 'hidden',
       }}
     >
-      {interaction?.alignmentGuidesPt?.xPts?.map((xPt, i) => (
+      {alignmentGuidesPt?.xPts?.map((xPt, i) => (
         <div
           key={`gx_${i}`}
           style={{
@@ -597,7 +598,7 @@ export function DocumentPreview({
           }}
         />
       ))}
-      {interaction?.alignmentGuidesPt?.yPts?.map((yPt, i) => (
+      {alignmentGuidesPt?.yPts?.map((yPt, i) => (
         <div
           key={`gy_${i}`}
           style={{
@@ -613,13 +614,13 @@ export function DocumentPreview({
         />
       ))}
 
-      {interaction?.spacingGuidesPt?.lines?.length ? (
+      {spacingGuidesPt?.lines?.length ? (
         <svg
           width="100%"
           height="100%"
           style={{ position: 'absolute', inset: 0, pointerEvents: 'none', zIndex: 9999 }}
         >
-          {interaction.spacingGuidesPt.lines.map((l, i) => {
+          {spacingGuidesPt.lines.map((l, i) => {
             const x1 = ptToPx(l.x1Pt)
             const y1 = ptToPx(l.y1Pt)
             const x2 = ptToPx(l.x2Pt)
@@ -644,24 +645,115 @@ export function DocumentPreview({
         </svg>
       ) : null}
 
-      {sortElements(template.elements).map((el) => {
-        if (!evalBoolean(el.visibleIf, ctx)) return null
+      {renderElements(page.elements)}
 
-        if (el.type === 'text') return <TextEl key={el.id} el={el} ctx={ctx} interaction={interaction} />
-        if (el.type === 'line') return <LineEl key={el.id} el={el} interaction={interaction} />
-        if (el.type === 'table') return <TableEl key={el.id} el={el} ctx={ctx} interaction={interaction} />
-        if (el.type === 'image') {
-          const url = imageUrls[el.imageRef]
-          return url ? <ImageEl key={el.id} el={el} url={url} interaction={interaction} /> : null
-        }
+      {page.header && <PageBand kind="header" band={page.header} render={renderElements} />}
+      {page.footer && <PageBand kind="footer" band={page.footer} render={renderElements} />}
+    </div>
+  )
+}
 
-        if (el.type === 'qr') {
-          const url = qrUrls[el.id]
-          return <QrEl key={el.id} el={el} url={url ?? ''} interaction={interaction} />
-        }
+export function DocumentPreview({
+  template,
+  ctx,
+  assetResolver,
+  className,
+  interaction,
+}: {
+  template: DocumentTemplateV1
+  ctx: EvalContext
+  assetResolver?: AssetResolver
+  className?: string
+  interaction?: PreviewInteraction
+}) {
+  const pages = React.useMemo(() => layoutDocument(template, ctx), [template, ctx])
+
+  const [imageUrls, setImageUrls] = React.useState<Record<string, string>>({})
+  const [qrUrls, setQrUrls] = React.useState<Record<string, string>>({})
 
-        return null
-      })}
+  React.useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      const entries = await Promise.all(
+        getImageRefs(template).map(async (ref) => {
+          try {
+            const url = await resolveImage(ref, assetResolver)
+            return [ref, url] as const
+          } catch {
+            return [ref, ''] as const
+          }
+        }),
+      )
+
+      if (!cancelled) setImageUrls(Object.fromEntries(entries))
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [template, assetResolver])
+
+  React.useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      // QR payloads may use page tokens, so they are generated per output page.
+      const entries = await Promise.all(
+        pages.flatMap((page) =>
+          getPageQrElements(page).map(async (el) => {
+            const key = qrKey(page, el)
+            try {
+              const data = String(renderTemplateString(el.dataTpl ?? '', withPageContext(ctx, page)) ?? '')
+              if (!data) return [key, ''] as const
+
+              const sizePx = Math.max(ptToPx(el.rect.wPt), ptToPx(el.rect.hPt))
+              const width = Math.max(64, Math.ceil(sizePx * 2))
+
+              const url = await QRCode.toDataURL(data, {
+                width,
+                margin: el.marginModules,
+                errorCorrectionLevel: el.ecc,
+                color: {
+                  dark: el.fgColor ?? '#000000',
+                  light: el.bgColor ?? '#ffffff',
+                },
+              })
+
+              return [key, url] as const
+            } catch {
+              return [key, ''] as const
+            }
+          }),
+        ),
+      )
+
+      if (!cancelled) setQrUrls(Object.fromEntries(entries))
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [pages, ctx])
+
+  const activePageIndex = interaction?.activePageIndex ?? 0
+
+  return (
+    <div data-doc-root className={className} style={{ display: 'grid', gap: 16, justifyContent: 'start' }}>
+      {pages.map((page) => (
+        <PreviewPage
+          key={page.id}
+          page={page}
+          ctx={ctx}
+          imageUrls={imageUrls}
+          qrUrls={qrUrls}
+          // Continuation pages are generated output; only template pages are editable.
+          interaction={page.continuation ? undefined : interaction}
+          showGuides={!page.continuation && page.sourceIndex === activePageIndex}
+        />
+      ))}
     </div>
   )
 }
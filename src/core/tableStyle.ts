@@ -0,0 +1,109 @@
+import type {
+  EvalContext,
+  FunctionMap,
+  TableBorderV1,
+  TableCellStyleV1,
+  TableColumnV1,
+  TableElementV1,
+  TableNumberFormatV1,
+} from './types'
+import { evalBoolean } from './evaluate'
+import { createLruCache } from './lru'
+
+// Table style resolution shared by the HTML preview and the vector PDF, so both draw the same borders, colours and
+// number formats.
+
+export const DEFAULT_TABLE_BORDER_COLOR = '#E5E7EB'
+export const DEFAULT_TABLE_BORDER_WIDTH_PT = 0.75
+export const DEFAULT_TABLE_CELL_PADDING_PT = 3
+
+export type TableEdge = 'top' | 'right' | 'bottom' | 'left'
+
+/** A cell border after defaults are applied; `widthPt` is 0 when the edge isn't drawn. */
+export type ResolvedTableBorder = { widthPt: number; color: string }
+
+const CELL_STYLE_KEYS = ['background', 'color', 'fontWeight', 'fontStyle'] as const
+
+const numberFormatCache = createLruCache<Intl.NumberFormat | null>(100)
+
+export function getTableCellPaddingPt(el: TableElementV1): number {
+  const padding = el.cellPaddingPt
+  return typeof padding === 'number' && padding >= 0 ? padding : DEFAULT_TABLE_CELL_PADDING_PT
+}
+
+function resolveBorder(el: TableElementV1, edge: TableBorderV1 | undefined): ResolvedTableBorder {
+  const widthPt = el.border === false ? 0 : (edge?.widthPt ?? el.borderWidthPt ?? DEFAULT_TABLE_BORDER_WIDTH_PT)
+  return { widthPt: Math.max(0, widthPt), color: edge?.color ?? el.borderColor ?? DEFAULT_TABLE_BORDER_COLOR }
+}
+
+/**
+ * Borders of one cell. `rowIdx` counts the drawn rows from the top (header row included) out of `rowCount`. Outer
+ * edges come from `borders.top` / `right` / `bottom` / `left`, the lines between cells from `horizontal` /
+ * `vertical`.
+ */
+export function getTableCellBorders(
+  el: TableElementV1,
+  rowIdx: number,
+  rowCount: number,
+  colIdx: number,
+): Record<TableEdge, ResolvedTableBorder> {
+  const borders = el.borders ?? {}
+  return {
+    top: resolveBorder(el, rowIdx === 0 ? borders.top : borders.horizontal),
+    right: resolveBorder(el, colIdx === el.columns.length - 1 ? borders.right : borders.vertical),
+    bottom: resolveBorder(el, rowIdx === rowCount - 1 ? borders.bottom : borders.horizontal),
+    left: resolveBorder(el, colIdx === 0 ? borders.left : borders.vertical),
+  }
+}
+
+/**
+ * Style of a body row: the stripe colour for every other row, then each `rowStyles` entry whose `when` is truthy
+ * for `rowCtx.row`. `index` is the row's position among all rows, so striping continues across pages. A `when` that
+ * fails to evaluate doesn't match.
+ */
+export function getTableRowStyle(
+  el: TableElementV1,
+  rowCtx: EvalContext,
+  index: number,
+  functions?: FunctionMap,
+): TableCellStyleV1 {
+  const style: TableCellStyleV1 = index % 2 === 1 && el.stripeColor ? { background: el.stripeColor } : {}
+  for (const rowStyle of el.rowStyles ?? []) {
+    if (!rowStyle.when?.trim() || !evalBoolean(rowStyle.when, rowCtx, functions)) continue
+    for (const key of CELL_STYLE_KEYS) {
+      if (rowStyle[key] !== undefined) Object.assign(style, { [key]: rowStyle[key] })
+    }
+  }
+  return style
+}
+
+function toIntlOptions(format: TableNumberFormatV1): Intl.NumberFormatOptions {
+  const style = format.style ?? 'decimal'
+  const options: Intl.NumberFormatOptions = { style, useGrouping: format.grouping ?? true }
+  if (style === 'currency') options.currency = (format.currency ?? '').trim().toUpperCase()
+  if (typeof format.decimals === 'number') {
+    options.minimumFractionDigits = format.decimals
+    options.maximumFractionDigits = format.decimals
+  }
+  return options
+}
+
+/**
+ * Applies the column's `numberFormat` to a cell whose text is a plain number. Other text, and formats Intl rejects
+ * (e.g. an unknown currency), leave the text unchanged.
+ */
+export function formatTableCell(text: string, column: TableColumnV1, locale: string | undefined): string {
+  const format = column.numberFormat
+  const trimmed = text.trim()
+  if (!format || trimmed === '' || !Number.isFinite(Number(trimmed))) return text
+
+  const resolvedLocale = locale || 'en-US'
+  const fmt = numberFormatCache.get(`${resolvedLocale}|${JSON.stringify(format)}`, () => {
+    try {
+      return new Intl.NumberFormat(resolvedLocale, toIntlOptions(format))
+    } catch {
+      return null
+    }
+  })
+  return fmt ? fmt.format(Number(trimmed)) : text
+}
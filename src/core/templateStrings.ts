@@ -1,19 +1,110 @@
 import type { EvalContext, FunctionMap } from './types'
-import { evalExpression } from './expr'
+import { compileExpression, toExpressionError, type CompiledExpression, type ExpressionError } from './expr'
+import { createLruCache } from './lru'
 
-export function renderTemplateString(tpl: string, ctx: EvalContext, functions?: FunctionMap): string {
-  if (!tpl.includes('{{')) return tpl
+/** The `{{ ... }}` expressions of a template string, with the offset of each `{{` in `tpl`. */
+export function extractTemplateExpressions(tpl: string): Array<{ expr: string; offset: number }> {
+  const out: Array<{ expr: string; offset: number }> = []
+  for (const m of tpl.matchAll(/\{\{([\s\S]*?)\}\}/g)) {
+    const expr = String(m[1] ?? '').trim()
+    if (expr) out.push({ expr, offset: m.index ?? 0 })
+  }
+  return out
+}
+
+/** A template string split into literal text and compiled expressions, ready to render against any context. */
+export type CompiledTemplateString = (ctx: EvalContext, functions?: FunctionMap) => string
+
+// `offset` is where the expression text starts in the template string, so error offsets can be mapped back to it.
+type TemplatePart = string | { offset: number; run: CompiledExpression } | { offset: number; error: ExpressionError }
+
+type CompiledTemplate = { parts: TemplatePart[]; render: CompiledTemplateString }
+
+const templateCache = createLruCache<CompiledTemplate>(2000)
+
+function errorText(err: unknown): string {
+  const message = err instanceof Error ? err.message : String(err)
+  // Keep rendering; show the error inline so users can fix the expression.
+  return `[expr error: ${message}]`
+}
+
+function compileParts(tpl: string): TemplatePart[] {
+  const parts: TemplatePart[] = []
+  let last = 0
+  for (const m of tpl.matchAll(/\{\{([\s\S]*?)\}\}/g)) {
+    const start = m.index ?? 0
+    if (start > last) parts.push(tpl.slice(last, start))
+    last = start + m[0].length
+
+    const inner = String(m[1] ?? '')
+    const expr = inner.trim()
+    if (!expr) continue
+    const offset = start + 2 + inner.indexOf(expr)
+    try {
+      parts.push({ offset, run: compileExpression(expr) })
+    } catch (err) {
+      parts.push({ offset, error: toExpressionError(err, expr) })
+    }
+  }
+  if (last < tpl.length) parts.push(tpl.slice(last))
+  return parts
+}
 
-  return tpl.replace(/\{\{([\s\S]*?)\}\}/g, (_m, inner) => {
-    const expr = String(inner ?? '').trim()
-    if (!expr) return ''
+/** Renders the parts; failures become inline `[expr error: ...]` text and, with `errors`, are collected too. */
+function renderParts(
+  parts: TemplatePart[],
+  ctx: EvalContext,
+  functions: FunctionMap | undefined,
+  errors?: ExpressionError[],
+): string {
+  let out = ''
+  for (const part of parts) {
+    if (typeof part === 'string') {
+      out += part
+      continue
+    }
     try {
-      const value = evalExpression(expr, ctx, functions)
-      return value == null ? '' : String(value)
+      if ('error' in part) throw part.error
+      const value = part.run(ctx, functions)
+      out += value == null ? '' : String(value)
     } catch (err) {
-      const message = err instanceof Error ? err.message : String(err)
-      // Keep rendering; show the error inline so users can fix the expression.
-      return `[expr error: ${message}]`
+      out += errorText(err)
+      if (errors) {
+        const e = toExpressionError(err, '')
+        errors.push(e.withSource({ templateOffset: part.offset + e.offset }))
+      }
     }
+  }
+  return out
+}
+
+function compileTemplate(tpl: string): CompiledTemplate {
+  return templateCache.get(tpl, () => {
+    if (!tpl.includes('{{')) return { parts: [tpl], render: () => tpl }
+    const parts = compileParts(tpl)
+    return { parts, render: (ctx, functions) => renderParts(parts, ctx, functions) }
   })
 }
+
+/** Parses the `{{ ... }}` placeholders of `tpl` once (cached by text) and returns a reusable renderer. */
+export function compileTemplateString(tpl: string): CompiledTemplateString {
+  return compileTemplate(tpl).render
+}
+
+export function renderTemplateString(tpl: string, ctx: EvalContext, functions?: FunctionMap): string {
+  return compileTemplateString(tpl)(ctx, functions)
+}
+
+/**
+ * Like `renderTemplateString`, but also returns the failures as `ExpressionError`s whose `source.templateOffset`
+ * points at the problem within `tpl`.
+ */
+export function evalTemplateString(
+  tpl: string,
+  ctx: EvalContext,
+  functions?: FunctionMap,
+): { text: string; errors: ExpressionError[] } {
+  const errors: ExpressionError[] = []
+  const text = renderParts(compileTemplate(tpl).parts, ctx, functions, errors)
+  return { text, errors }
+}
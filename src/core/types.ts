@@ -30,6 +30,16 @@ export interface TemplatePage {
   marginPt: PageMarginsPt
   /** Only used when size === 'CUSTOM'. Stored as portrait base dimensions in points. */
   customSizePt?: { wPt: number; hPt: number }
+  /** Repeated at the top of every page, inside the page margins. */
+  header?: PageBandV1
+  /** Repeated at the bottom of every page, inside the page margins. */
+  footer?: PageBandV1
+}
+
+export interface PageBandV1 {
+  heightPt: number
+  /** Element rects are relative to the band's top-left corner. */
+  elements: TemplateV1Element[]
 }
 
 export interface InputDefV1 {
@@ -99,20 +109,103 @@ export interface LineElementV1 extends BaseElementV1 {
   lineStyle?: 'solid' | 'dashed' | 'dotted'
 }
 
+export type TableAlignV1 = 'left' | 'center' | 'right'
+
+/**
+ * Number formatting for a column. Applies to cells whose text is a plain number (e.g. `{{ row.amount }}`) and uses
+ * the template locale; other text is printed as is.
+ */
+export interface TableNumberFormatV1 {
+  /** Defaults to 'decimal'. 'percent' multiplies by 100 (0.16 → 16%). */
+  style?: 'decimal' | 'currency' | 'percent'
+  /** ISO 4217 code, required by 'currency'. */
+  currency?: string
+  /** Fixed number of decimals (defaults to the style's usual precision). */
+  decimals?: number
+  /** Thousands separators; defaults to true. */
+  grouping?: boolean
+}
+
 export interface TableColumnV1 {
   key: string
   header?: string
   cellTpl: string
   widthPct?: number
+  /** Horizontal alignment of the column's header and cells. Defaults to 'left'. */
+  align?: TableAlignV1
+  numberFormat?: TableNumberFormatV1
+}
+
+/** Background and text style of table cells. */
+export interface TableCellStyleV1 {
+  background?: string
+  color?: string
+  fontWeight?: 'normal' | 'bold'
+  fontStyle?: 'normal' | 'italic'
+}
+
+/** Applied to the body rows for which `when` is truthy; later matching styles override earlier ones. */
+export interface TableRowStyleV1 extends TableCellStyleV1 {
+  /** Expression evaluated with `row` set to the row's item, e.g. `row.overdue` or `row.total < 0`. */
+  when: string
 }
 
+/** One table edge. Unset properties fall back to the table's `borderWidthPt` / `borderColor`. */
+export interface TableBorderV1 {
+  /** 0 hides the edge. */
+  widthPt?: number
+  color?: string
+}
+
+export interface TableBordersV1 {
+  top?: TableBorderV1
+  right?: TableBorderV1
+  bottom?: TableBorderV1
+  left?: TableBorderV1
+  /** Lines between rows, including the one below the header row. */
+  horizontal?: TableBorderV1
+  /** Lines between columns. */
+  vertical?: TableBorderV1
+}
+
+export type TableOverflowV1 = 'clip' | 'paginate'
+
 export interface TableElementV1 extends BaseElementV1 {
   type: 'table'
   rowsExpr: string
   columns: TableColumnV1[]
   headerRow?: boolean
+  /** false hides every border, whatever `borders` says. */
   border?: boolean
+  /** Default border colour (#E5E7EB). */
+  borderColor?: string
+  /** Default border width (0.75pt). */
+  borderWidthPt?: number
+  /** Per-edge overrides of `borderColor` / `borderWidthPt`. */
+  borders?: TableBordersV1
   fontSizePt?: number
+  /** Space between cell borders and text on every side. Defaults to 3pt. */
+  cellPaddingPt?: number
+  /** Vertical alignment of body cells (header cells are centred). Defaults to 'top'. */
+  verticalAlign?: 'top' | 'middle' | 'bottom'
+  /** Header row style; the header text is bold by default. */
+  headerStyle?: TableCellStyleV1
+  /** Background of every other body row (the 2nd, 4th, ...), for zebra striping. */
+  stripeColor?: string
+  /** Conditional body row styles, applied over `stripeColor`. */
+  rowStyles?: TableRowStyleV1[]
+  /**
+   * What happens to rows that do not fit in `rect`.
+   * - 'clip' (default): extra rows are hidden.
+   * - 'paginate': extra rows continue on new pages, repeating the header row.
+   */
+  overflow?: TableOverflowV1
+  /** Fixed row height used when paginating. Defaults to a height derived from fontSizePt. */
+  rowHeightPt?: number
+  /** Paginate mode: avoid leaving fewer than this many rows on a page (default 1). */
+  minRowsPerPage?: number
+  /** Paginate mode: template string shown above the table on continuation pages. */
+  continuedCaption?: string
 }
 
 export type QrErrorCorrectionLevelV1 = 'L' | 'M' | 'Q' | 'H'
@@ -133,6 +226,15 @@ export interface QrElementV1 extends BaseElementV1 {
 
 export type TemplateV1Element = TextElementV1 | ImageElementV1 | LineElementV1 | TableElementV1 | QrElementV1
 
+export interface DocumentPageV1 {
+  id: string
+  /** Optional per-page setup. Omitted fields inherit from the template-level `page`. */
+  size?: PageSize
+  orientation?: PageOrientation
+  customSizePt?: { wPt: number; hPt: number }
+  elements: TemplateV1Element[]
+}
+
 export interface DocumentTemplateV1 {
   schemaVersion: SchemaVersion
   meta: TemplateMeta
@@ -140,19 +242,87 @@ export interface DocumentTemplateV1 {
   inputs: InputDefV1[]
   constants: Record<string, unknown>
   variables: Record<string, string>
+  /** Elements of the first page. */
   elements: TemplateV1Element[]
+  /** Additional pages after the first one. Each page starts on a new PDF page. */
+  pages?: DocumentPageV1[]
+  /** BCP 47 locale used by the date, number and text helpers by default (e.g. "es-MX"). Defaults to "en-US". */
+  locale?: string
+  /** IANA time zone used to format timestamps by default (e.g. "America/Mexico_City"). Defaults to "UTC". */
+  timeZone?: string
+}
+
+export interface PackageAssetV1 {
+  dataUrl: string
+  mimeType?: string
 }
 
+/** A template plus the images it references, so a single JSON file is self-contained. */
 export interface DocumentTemplatePackageV1 {
   template: DocumentTemplateV1
-  assets?: Record<string, { dataUrl: string; mimeType?: string }>
+  /** Embedded images keyed by `imageRef`. */
+  assets?: Record<string, PackageAssetV1>
+}
+
+/**
+ * Position of the page being rendered. A section is one template page plus the continuation pages its
+ * paginated tables produce.
+ */
+export interface EvalPageInfo {
+  /** 1-based number of the output page. */
+  number: number
+  /** Total number of output pages. */
+  count: number
+  /** 1-based number of the section (i.e. of the template page). */
+  section: number
+  /** 1-based number of the page within its section. */
+  sectionNumber: number
+  /** Number of output pages in the section. */
+  sectionCount: number
+}
+
+/** Defaults for the locale-aware helpers. Per-call values override the template's `locale` / `timeZone`. */
+export interface EvalLocaleOptions {
+  locale?: string
+  timeZone?: string
+}
+
+/**
+ * Bounds on the work a single expression evaluation may do, for templates from untrusted authors. Exceeding one
+ * aborts that evaluation with an `EvalLimitError`. See `DEFAULT_EVAL_LIMITS` for the defaults.
+ */
+export interface EvalLimits {
+  /** Size of a parsed expression. */
+  maxAstNodes: number
+  /** Evaluated nodes, including every lambda call made by `map`, `filter`, etc. */
+  maxSteps: number
+  /** Length of any string the expression builds (`+`, `concat`, `padStart`, `join`, ...). */
+  maxStringLength: number
+  /** Length of arrays created or processed by the list helpers. */
+  maxArrayLength: number
+  /** Nesting depth of the evaluation (expression nesting plus lambda calls). */
+  maxDepth: number
+  /** Wall-clock budget in milliseconds. */
+  timeoutMs: number
+}
+
+export interface EvalOptions extends EvalLocaleOptions {
+  /** Overrides individual `DEFAULT_EVAL_LIMITS`. */
+  limits?: Partial<EvalLimits>
 }
 
-export interface EvalContext {
+export interface EvalContext extends EvalOptions {
   inputs: Record<string, unknown>
   constants: Record<string, unknown>
   vars: Record<string, unknown>
   row?: unknown
+  /** Only set while rendering page content (not for variables, rowsExpr or table visibility). */
+  page?: EvalPageInfo
+  /**
+   * Functions available to expressions: the built-in helpers plus any host functions passed to
+   * `buildEvalContext`. Used whenever an evaluation isn't given its own map; defaults to the built-ins.
+   */
+  functions?: FunctionMap
 }
 
 export type FunctionMap = Record<string, (...args: unknown[]) => unknown>
@@ -0,0 +1,476 @@
+import type { ElementType, InputType, PageOrientation, PageSize } from './types'
+import { parseExpression } from './expr'
+import { extractTemplateExpressions } from './templateStrings'
+import { getPageSizePt } from './units'
+import { FIRST_PAGE_ID } from './pages'
+
+export type DiagnosticSeverity = 'error' | 'warning'
+
+export type TemplateDiagnostic = {
+  /** JSON path of the offending value, e.g. `$.elements[2].rect.wPt`. */
+  path: string
+  severity: DiagnosticSeverity
+  message: string
+}
+
+export type TemplateValidationResult = {
+  /** False when there is at least one error (warnings don't make a template invalid). */
+  valid: boolean
+  diagnostics: TemplateDiagnostic[]
+}
+
+const PAGE_SIZES: PageSize[] = ['A3', 'A4', 'A5', 'LETTER', 'LEGAL', 'CUSTOM']
+const ORIENTATIONS: PageOrientation[] = ['portrait', 'landscape']
+const INPUT_TYPES: InputType[] = ['string', 'number', 'boolean', 'date']
+const ELEMENT_TYPES: ElementType[] = ['text', 'image', 'line', 'table', 'qr']
+const LINE_STYLES = ['solid', 'dashed', 'dotted']
+const TEXT_ALIGNS = ['left', 'center', 'right']
+
+type Obj = Record<string, unknown>
+
+function isObject(value: unknown): value is Obj {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function describe(value: unknown): string {
+  if (value === undefined) return 'nothing'
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'an array'
+  return typeof value === 'object' ? 'an object' : `${typeof value} ${JSON.stringify(value)}`
+}
+
+type CheckState = {
+  diagnostics: TemplateDiagnostic[]
+  /** First path each element id was seen at. */
+  elementIds: Map<string, string>
+}
+
+/** `path` extended with an object key: `.key` for identifiers, `["a.b"]` for anything else. */
+function keyPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`
+}
+
+function addError(c: CheckState, path: string, message: string): void {
+  c.diagnostics.push({ path, severity: 'error', message })
+}
+
+function addWarning(c: CheckState, path: string, message: string): void {
+  c.diagnostics.push({ path, severity: 'warning', message })
+}
+
+function checkObject(c: CheckState, value: unknown, path: string): value is Obj {
+  if (isObject(value)) return true
+  addError(c, path, `Expected an object, got ${describe(value)}`)
+  return false
+}
+
+function checkArray(c: CheckState, value: unknown, path: string): value is unknown[] {
+  if (Array.isArray(value)) return true
+  addError(c, path, `Expected an array, got ${describe(value)}`)
+  return false
+}
+
+function checkString(
+  c: CheckState,
+  value: unknown,
+  path: string,
+  opts: { optional?: boolean; nonEmpty?: boolean } = {},
+): value is string {
+  if (value === undefined && opts.optional) return false
+  if (typeof value !== 'string') {
+    addError(c, path, `Expected a string, got ${describe(value)}`)
+    return false
+  }
+  if (opts.nonEmpty && !value.trim()) {
+    addError(c, path, 'Must not be empty')
+    return false
+  }
+  return true
+}
+
+function checkNumber(
+  c: CheckState,
+  value: unknown,
+  path: string,
+  opts: { optional?: boolean; min?: number; integer?: boolean } = {},
+): value is number {
+  if (value === undefined && opts.optional) return false
+  if (!isFiniteNumber(value)) {
+    addError(c, path, `Expected a number, got ${describe(value)}`)
+    return false
+  }
+  if (opts.integer && !Number.isInteger(value)) {
+    addError(c, path, `Expected a whole number, got ${value}`)
+    return false
+  }
+  if (opts.min !== undefined && value < opts.min) {
+    addError(c, path, `Must be at least ${opts.min}`)
+    return false
+  }
+  return true
+}
+
+function checkBoolean(c: CheckState, value: unknown, path: string): void {
+  if (value !== undefined && typeof value !== 'boolean') addError(c, path, `Expected a boolean, got ${describe(value)}`)
+}
+
+function checkOneOf<T extends string>(
+  c: CheckState,
+  value: unknown,
+  allowed: readonly T[],
+  path: string,
+  optional = false,
+): value is T {
+  if (value === undefined && optional) return false
+  if (typeof value === 'string' && (allowed as readonly string[]).includes(value)) return true
+  addError(c, path, `Expected one of ${allowed.map((a) => `'${a}'`).join(', ')}, got ${describe(value)}`)
+  return false
+}
+
+function checkExpression(c: CheckState, value: unknown, path: string, optional = false): void {
+  if (!checkString(c, value, path, { optional })) return
+  if (!value.trim()) {
+    if (!optional) addError(c, path, 'Expression must not be empty')
+    return
+  }
+  try {
+    parseExpression(value)
+  } catch (e) {
+    addError(c, path, `Invalid expression "${value}": ${(e as Error).message}`)
+  }
+}
+
+function checkTemplateString(c: CheckState, value: unknown, path: string, optional = false): void {
+  if (!checkString(c, value, path, { optional })) return
+  for (const { expr, offset } of extractTemplateExpressions(value)) {
+    try {
+      parseExpression(expr)
+    } catch (e) {
+      addError(c, path, `Invalid expression "${expr}" at offset ${offset}: ${(e as Error).message}`)
+    }
+  }
+  const unclosed = value.lastIndexOf('{{')
+  if (unclosed >= 0 && value.indexOf('}}', unclosed) < 0) {
+    addWarning(c, path, `Unclosed "{{" at offset ${unclosed} is rendered literally`)
+  }
+}
+
+function checkRect(c: CheckState, value: unknown, path: string): value is Obj {
+  if (!checkObject(c, value, path)) return false
+  checkNumber(c, value.xPt, `${path}.xPt`)
+  checkNumber(c, value.yPt, `${path}.yPt`)
+  checkNumber(c, value.wPt, `${path}.wPt`, { min: 0 })
+  checkNumber(c, value.hPt, `${path}.hPt`, { min: 0 })
+  checkNumber(c, value.z, `${path}.z`, { optional: true })
+  return true
+}
+
+/** `areaPt` is the page (or band) the element is positioned in, when known. */
+function checkElement(c: CheckState, value: unknown, path: string, areaPt?: { wPt: number; hPt: number }): void {
+  if (!checkObject(c, value, path)) return
+
+  if (checkString(c, value.id, `${path}.id`, { nonEmpty: true })) {
+    const firstPath = c.elementIds.get(value.id)
+    if (firstPath) addError(c, `${path}.id`, `Duplicate element id '${value.id}' (also used at ${firstPath})`)
+    else c.elementIds.set(value.id, path)
+  }
+
+  const hasRect = checkRect(c, value.rect, `${path}.rect`)
+  checkExpression(c, value.visibleIf, `${path}.visibleIf`, true)
+
+  if (hasRect && areaPt) {
+    const r = value.rect as Obj
+    if (
+      isFiniteNumber(r.xPt) &&
+      isFiniteNumber(r.yPt) &&
+      (r.xPt >= areaPt.wPt || r.yPt >= areaPt.hPt || r.xPt + Number(r.wPt) <= 0 || r.yPt + Number(r.hPt) <= 0)
+    ) {
+      addWarning(c, `${path}.rect`, 'Element lies completely outside its page area')
+    }
+  }
+
+  if (!checkOneOf(c, value.type, ELEMENT_TYPES, `${path}.type`)) return
+
+  switch (value.type) {
+    case 'text':
+      checkTemplateString(c, value.textTpl, `${path}.textTpl`)
+      checkTextStyle(c, value.style, `${path}.style`)
+      break
+
+    case 'image':
+      checkString(c, value.imageRef, `${path}.imageRef`, { nonEmpty: true })
+      checkOneOf(c, value.fit, ['contain', 'cover', 'stretch'], `${path}.fit`, true)
+      if (checkNumber(c, value.opacity, `${path}.opacity`, { optional: true })) {
+        if (value.opacity < 0 || value.opacity > 1) addWarning(c, `${path}.opacity`, 'Opacity is clamped to 0..1')
+      }
+      break
+
+    case 'line':
+      for (const key of ['x1Pt', 'y1Pt', 'x2Pt', 'y2Pt']) {
+        checkNumber(c, value[key], `${path}.${key}`, { optional: true })
+      }
+      checkNumber(c, value.thicknessPt, `${path}.thicknessPt`, { optional: true, min: 0 })
+      checkString(c, value.color, `${path}.color`, { optional: true })
+      checkOneOf(c, value.lineStyle, LINE_STYLES, `${path}.lineStyle`, true)
+      break
+
+    case 'table':
+      checkTable(c, value, path)
+      break
+
+    case 'qr':
+      checkTemplateString(c, value.dataTpl, `${path}.dataTpl`)
+      checkOneOf(c, value.ecc, ['L', 'M', 'Q', 'H'], `${path}.ecc`, true)
+      checkNumber(c, value.marginModules, `${path}.marginModules`, { optional: true, min: 0, integer: true })
+      checkString(c, value.fgColor, `${path}.fgColor`, { optional: true })
+      checkString(c, value.bgColor, `${path}.bgColor`, { optional: true })
+      break
+  }
+}
+
+function checkTextStyle(c: CheckState, value: unknown, path: string): void {
+  if (value === undefined || !checkObject(c, value, path)) return
+  checkNumber(c, value.fontSizePt, `${path}.fontSizePt`, { optional: true, min: 0 })
+  checkString(c, value.fontFamily, `${path}.fontFamily`, { optional: true })
+  if (value.fontWeight !== undefined && !isFiniteNumber(value.fontWeight)) {
+    checkOneOf(c, value.fontWeight, ['normal', 'bold'], `${path}.fontWeight`)
+  }
+  checkOneOf(c, value.fontStyle, ['normal', 'italic'], `${path}.fontStyle`, true)
+  checkOneOf(c, value.textAlign, TEXT_ALIGNS, `${path}.textAlign`, true)
+  checkString(c, value.color, `${path}.color`, { optional: true })
+  checkOneOf(c, value.textDecoration, ['none', 'underline'], `${path}.textDecoration`, true)
+  checkNumber(c, value.lineHeight, `${path}.lineHeight`, { optional: true, min: 0 })
+  checkNumber(c, value.borderWidthPt, `${path}.borderWidthPt`, { optional: true, min: 0 })
+  checkString(c, value.borderColor, `${path}.borderColor`, { optional: true })
+  checkOneOf(c, value.borderStyle, LINE_STYLES, `${path}.borderStyle`, true)
+  if (value.borderSides !== undefined && checkObject(c, value.borderSides, `${path}.borderSides`)) {
+    for (const side of ['top', 'right', 'bottom', 'left']) {
+      checkBoolean(c, value.borderSides[side], `${path}.borderSides.${side}`)
+    }
+  }
+}
+
+function checkTableCellStyle(c: CheckState, value: Obj, path: string): void {
+  checkString(c, value.background, `${path}.background`, { optional: true })
+  checkString(c, value.color, `${path}.color`, { optional: true })
+  checkOneOf(c, value.fontWeight, ['normal', 'bold'], `${path}.fontWeight`, true)
+  checkOneOf(c, value.fontStyle, ['normal', 'italic'], `${path}.fontStyle`, true)
+}
+
+function checkTableBorders(c: CheckState, value: unknown, path: string): void {
+  if (value === undefined || !checkObject(c, value, path)) return
+  for (const edge of ['top', 'right', 'bottom', 'left', 'horizontal', 'vertical']) {
+    const border = value[edge]
+    if (border === undefined || !checkObject(c, border, `${path}.${edge}`)) continue
+    checkNumber(c, border.widthPt, `${path}.${edge}.widthPt`, { optional: true, min: 0 })
+    checkString(c, border.color, `${path}.${edge}.color`, { optional: true })
+  }
+}
+
+function checkNumberFormat(c: CheckState, value: unknown, path: string): void {
+  if (value === undefined || !checkObject(c, value, path)) return
+  checkOneOf(c, value.style, ['decimal', 'currency', 'percent'], `${path}.style`, true)
+  if (checkString(c, value.currency, `${path}.currency`, { optional: true })) {
+    if (!/^[A-Za-z]{3}$/.test(value.currency.trim())) addError(c, `${path}.currency`, 'Expected an ISO 4217 code')
+  } else if (value.style === 'currency' && value.currency === undefined) {
+    addError(c, `${path}.currency`, "Required when style is 'currency'")
+  }
+  if (checkNumber(c, value.decimals, `${path}.decimals`, { optional: true, min: 0 })) {
+    if (!Number.isInteger(value.decimals) || value.decimals > 20) {
+      addError(c, `${path}.decimals`, 'Expected a whole number from 0 to 20')
+    }
+  }
+  checkBoolean(c, value.grouping, `${path}.grouping`)
+}
+
+function checkTable(c: CheckState, value: Obj, path: string): void {
+  checkExpression(c, value.rowsExpr, `${path}.rowsExpr`)
+  checkBoolean(c, value.headerRow, `${path}.headerRow`)
+  checkBoolean(c, value.border, `${path}.border`)
+  checkString(c, value.borderColor, `${path}.borderColor`, { optional: true })
+  checkNumber(c, value.borderWidthPt, `${path}.borderWidthPt`, { optional: true, min: 0 })
+  checkTableBorders(c, value.borders, `${path}.borders`)
+  checkNumber(c, value.fontSizePt, `${path}.fontSizePt`, { optional: true, min: 0 })
+  checkNumber(c, value.cellPaddingPt, `${path}.cellPaddingPt`, { optional: true, min: 0 })
+  checkOneOf(c, value.verticalAlign, ['top', 'middle', 'bottom'], `${path}.verticalAlign`, true)
+  if (value.headerStyle !== undefined && checkObject(c, value.headerStyle, `${path}.headerStyle`)) {
+    checkTableCellStyle(c, value.headerStyle, `${path}.headerStyle`)
+  }
+  checkString(c, value.stripeColor, `${path}.stripeColor`, { optional: true })
+  if (value.rowStyles !== undefined && checkArray(c, value.rowStyles, `${path}.rowStyles`)) {
+    value.rowStyles.forEach((rowStyle, i) => {
+      const stylePath = `${path}.rowStyles[${i}]`
+      if (!checkObject(c, rowStyle, stylePath)) return
+      checkExpression(c, rowStyle.when, `${stylePath}.when`)
+      checkTableCellStyle(c, rowStyle, stylePath)
+    })
+  }
+  checkOneOf(c, value.overflow, ['clip', 'paginate'], `${path}.overflow`, true)
+  checkNumber(c, value.rowHeightPt, `${path}.rowHeightPt`, { optional: true, min: 0 })
+  checkNumber(c, value.minRowsPerPage, `${path}.minRowsPerPage`, { optional: true, min: 1, integer: true })
+  checkTemplateString(c, value.continuedCaption, `${path}.continuedCaption`, true)
+
+  if (!checkArray(c, value.columns, `${path}.columns`)) return
+  if (value.columns.length === 0) addWarning(c, `${path}.columns`, 'Table has no columns')
+
+  const keys = new Set<string>()
+  let totalPct = 0
+  value.columns.forEach((col, i) => {
+    const colPath = `${path}.columns[${i}]`
+    if (!checkObject(c, col, colPath)) return
+    if (checkString(c, col.key, `${colPath}.key`, { nonEmpty: true })) {
+      if (keys.has(col.key)) addError(c, `${colPath}.key`, `Duplicate column key '${col.key}'`)
+      keys.add(col.key)
+    }
+    checkString(c, col.header, `${colPath}.header`, { optional: true })
+    checkTemplateString(c, col.cellTpl, `${colPath}.cellTpl`)
+    if (checkNumber(c, col.widthPct, `${colPath}.widthPct`, { optional: true, min: 0 })) totalPct += col.widthPct
+    checkOneOf(c, col.align, TEXT_ALIGNS, `${colPath}.align`, true)
+    checkNumberFormat(c, col.numberFormat, `${colPath}.numberFormat`)
+  })
+  if (totalPct > 100) addWarning(c, `${path}.columns`, `Column widths add up to ${totalPct}%`)
+}
+
+function checkElements(c: CheckState, value: unknown, path: string, areaPt?: { wPt: number; hPt: number }): void {
+  if (!checkArray(c, value, path)) return
+  value.forEach((el, i) => checkElement(c, el, `${path}[${i}]`, areaPt))
+}
+
+/** `partial` is for per-page overrides, where every field is optional. */
+function checkPageSetup(c: CheckState, value: Obj, path: string, partial: boolean): void {
+  checkOneOf(c, value.size, PAGE_SIZES, `${path}.size`, partial)
+  checkOneOf(c, value.orientation, ORIENTATIONS, `${path}.orientation`, partial)
+
+  if (value.customSizePt !== undefined) {
+    if (checkObject(c, value.customSizePt, `${path}.customSizePt`)) {
+      checkNumber(c, value.customSizePt.wPt, `${path}.customSizePt.wPt`, { min: 1 })
+      checkNumber(c, value.customSizePt.hPt, `${path}.customSizePt.hPt`, { min: 1 })
+    }
+  } else if (value.size === 'CUSTOM') {
+    addWarning(c, `${path}.customSizePt`, "Missing customSizePt for size 'CUSTOM' (falls back to A4)")
+  }
+}
+
+/** Page size in points, or undefined when the setup is too broken to tell. */
+function getSetupSizePt(setup: Obj): { wPt: number; hPt: number } | undefined {
+  const { size, orientation, customSizePt } = setup
+  if (!PAGE_SIZES.includes(size as PageSize) || !ORIENTATIONS.includes(orientation as PageOrientation)) return undefined
+  const custom =
+    isObject(customSizePt) && isFiniteNumber(customSizePt.wPt) && isFiniteNumber(customSizePt.hPt)
+      ? { wPt: customSizePt.wPt, hPt: customSizePt.hPt }
+      : undefined
+  return getPageSizePt(size as PageSize, orientation as PageOrientation, custom)
+}
+
+function checkTemplate(c: CheckState, json: unknown): void {
+  if (!checkObject(c, json, '$')) return
+
+  if (json.schemaVersion !== 'docTemplate-v1') {
+    addError(c, '$.schemaVersion', `Expected 'docTemplate-v1', got ${describe(json.schemaVersion)}`)
+  }
+
+  if (checkObject(c, json.meta, '$.meta')) {
+    checkString(c, json.meta.name, '$.meta.name')
+    checkString(c, json.meta.description, '$.meta.description', { optional: true })
+  }
+
+  let pageSizePt: { wPt: number; hPt: number } | undefined
+  if (checkObject(c, json.page, '$.page')) {
+    const page = json.page
+    checkPageSetup(c, page, '$.page', false)
+    pageSizePt = getSetupSizePt(page)
+
+    if (checkObject(c, page.marginPt, '$.page.marginPt')) {
+      for (const key of ['topPt', 'rightPt', 'bottomPt', 'leftPt']) {
+        checkNumber(c, page.marginPt[key], `$.page.marginPt.${key}`, { min: 0 })
+      }
+    }
+
+    for (const kind of ['header', 'footer'] as const) {
+      const band = page[kind]
+      const bandPath = `$.page.${kind}`
+      if (band === undefined || !checkObject(c, band, bandPath)) continue
+      checkNumber(c, band.heightPt, `${bandPath}.heightPt`, { min: 0 })
+      const bandArea =
+        pageSizePt && isFiniteNumber(band.heightPt) ? { wPt: pageSizePt.wPt, hPt: band.heightPt } : undefined
+      checkElements(c, band.elements, `${bandPath}.elements`, bandArea)
+    }
+  }
+
+  if (checkArray(c, json.inputs, '$.inputs')) {
+    const keys = new Set<string>()
+    json.inputs.forEach((input, i) => {
+      const path = `$.inputs[${i}]`
+      if (!checkObject(c, input, path)) return
+      if (checkString(c, input.key, `${path}.key`, { nonEmpty: true })) {
+        if (keys.has(input.key)) addError(c, `${path}.key`, `Duplicate input key '${input.key}'`)
+        keys.add(input.key)
+      }
+      checkString(c, input.label, `${path}.label`)
+      checkOneOf(c, input.type, INPUT_TYPES, `${path}.type`)
+      checkBoolean(c, input.required, `${path}.required`)
+    })
+  }
+
+  if (checkString(c, json.locale, '$.locale', { optional: true, nonEmpty: true })) {
+    try {
+      Intl.getCanonicalLocales(json.locale)
+    } catch {
+      addError(c, '$.locale', `Invalid locale '${json.locale}'`)
+    }
+  }
+  if (checkString(c, json.timeZone, '$.timeZone', { optional: true, nonEmpty: true })) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: json.timeZone })
+    } catch {
+      addError(c, '$.timeZone', `Unknown time zone '${json.timeZone}'`)
+    }
+  }
+
+  checkObject(c, json.constants, '$.constants')
+
+  if (checkObject(c, json.variables, '$.variables')) {
+    for (const [key, expr] of Object.entries(json.variables)) checkExpression(c, expr, keyPath('$.variables', key))
+  }
+
+  checkElements(c, json.elements, '$.elements', pageSizePt)
+
+  if (json.pages !== undefined && checkArray(c, json.pages, '$.pages')) {
+    const pageIds = new Set<string>()
+    json.pages.forEach((page, i) => {
+      const path = `$.pages[${i}]`
+      if (!checkObject(c, page, path)) return
+      if (checkString(c, page.id, `${path}.id`, { nonEmpty: true })) {
+        if (page.id === FIRST_PAGE_ID) {
+          addError(c, `${path}.id`, `Page id '${FIRST_PAGE_ID}' is reserved for the first page`)
+        } else if (pageIds.has(page.id)) {
+          addError(c, `${path}.id`, `Duplicate page id '${page.id}'`)
+        }
+        pageIds.add(page.id)
+      }
+      checkPageSetup(c, page, path, true)
+      // Omitted fields inherit from the template-level page, as in getTemplatePages.
+      const base = isObject(json.page) ? json.page : {}
+      const sizePt = getSetupSizePt({
+        size: page.size ?? base.size,
+        orientation: page.orientation ?? base.orientation,
+        customSizePt: page.customSizePt ?? base.customSizePt,
+      })
+      checkElements(c, page.elements, `${path}.elements`, sizePt)
+    })
+  }
+}
+
+/**
+ * Checks that `json` is a well-formed `DocumentTemplateV1` and that every expression in it parses.
+ * Never throws; problems are reported as diagnostics with the JSON path they were found at.
+ */
+export function validateTemplate(json: unknown): TemplateValidationResult {
+  const c: CheckState = { diagnostics: [], elementIds: new Map() }
+  checkTemplate(c, json)
+  return { valid: !c.diagnostics.some((d) => d.severity === 'error'), diagnostics: c.diagnostics }
+}
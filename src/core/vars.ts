@@ -1,5 +1,5 @@
 import type { EvalContext, FunctionMap } from './types'
-import { parseExpression, evalExpression } from './expr'
+import { compileExpression, ExpressionError, parseExpression, toExpressionError } from './expr'
 
 function collectVarDeps(expr: string): Set<string> {
   const deps = new Set<string>()
@@ -8,9 +8,11 @@ function collectVarDeps(expr: string): Set<string> {
   const visit = (node: any) => {
     if (!node) return
 
-    if (node.type === 'MemberExpression' && !node.computed) {
-      if (node.object?.type === 'Identifier' && node.object?.name === 'vars' && node.property?.type === 'Identifier') {
-        deps.add(node.property.name)
+    if (node.type === 'MemberExpression' && node.object?.type === 'Identifier' && node.object?.name === 'vars') {
+      if (!node.computed && node.property?.type === 'Identifier') deps.add(node.property.name)
+      // vars["name"]; dynamic keys (vars[inputs.key]) can't be resolved here and only see already evaluated vars.
+      if (node.computed && node.property?.type === 'Literal' && typeof node.property.value === 'string') {
+        deps.add(node.property.value)
       }
     }
 
@@ -29,20 +31,27 @@ function collectVarDeps(expr: string): Set<string> {
   return deps
 }
 
+/**
+ * Evaluates `variables` in dependency order. `errors` are display strings; `expressionErrors` carry the same
+ * failures as `ExpressionError`s with `source.variable` set.
+ */
 export function evaluateVariables(
   variableExprs: Record<string, string>,
   ctxBase: Omit<EvalContext, 'vars'>,
   functions?: FunctionMap,
-): { vars: Record<string, unknown>; errors: string[] } {
-  const errors: string[] = []
+): { vars: Record<string, unknown>; errors: string[]; expressionErrors: ExpressionError[] } {
+  const expressionErrors: ExpressionError[] = []
   const depsByVar = new Map<string, Set<string>>()
 
+  const fail = (key: string, e: unknown) => {
+    expressionErrors.push(toExpressionError(e, variableExprs[key]).withSource({ variable: key }))
+  }
+
   for (const [key, expr] of Object.entries(variableExprs)) {
     try {
       depsByVar.set(key, collectVarDeps(expr))
     } catch (e) {
-      errors.push(`vars.${key}: ${(e as Error).message}`)
-      depsByVar.set(key, new Set())
+      fail(key, e)
     }
   }
 
@@ -53,7 +62,8 @@ export function evaluateVariables(
   const evalVar = (key: string) => {
     if (visited.has(key)) return
     if (visiting.has(key)) {
-      errors.push(`Cycle detected in vars: ${key}`)
+      const error = new ExpressionError('cycle', `Cycle detected in vars: ${key}`, { expression: variableExprs[key] })
+      expressionErrors.push(error.withSource({ variable: key }))
       return
     }
 
@@ -62,10 +72,13 @@ export function evaluateVariables(
       if (Object.prototype.hasOwnProperty.call(variableExprs, dep)) evalVar(dep)
     }
 
-    try {
-      vars[key] = evalExpression(variableExprs[key]!, { ...ctxBase, vars }, functions)
-    } catch (e) {
-      errors.push(`vars.${key}: ${(e as Error).message}`)
+    // Variables that failed to parse were already reported above.
+    if (depsByVar.has(key)) {
+      try {
+        vars[key] = compileExpression(variableExprs[key]!)({ ...ctxBase, vars }, functions)
+      } catch (e) {
+        fail(key, e)
+      }
     }
 
     visiting.delete(key)
@@ -74,5 +87,8 @@ export function evaluateVariables(
 
   for (const key of Object.keys(variableExprs)) evalVar(key)
 
-  return { vars, errors }
+  const errors = expressionErrors.map((e) =>
+    e.code === 'cycle' ? e.message : `vars.${e.source.variable}: ${e.message}`,
+  )
+  return { vars, errors, expressionErrors }
 }
@@ -8,5 +8,14 @@ export * from '../core/types'
 export * from '../core/expr'
 export * from '../core/evaluate'
 export * from '../core/templateStrings'
+export * from '../core/assets'
 export * from '../core/pdf'
+export * from '../core/pdfVector'
+export * from '../core/headless'
 export * from '../core/units'
+export * from '../core/pages'
+export * from '../core/layout'
+export * from '../core/tableStyle'
+export * from '../core/validate'
+export * from '../core/migrate'
+export * from '../core/jsonSchema'
@@ -0,0 +1,16 @@
+// DOM-free entrypoint (Node batch jobs, API endpoints). Does not import React or touch `window`.
+
+export * from '../core/types'
+export * from '../core/expr'
+export * from '../core/evaluate'
+export * from '../core/templateStrings'
+export * from '../core/assets'
+export * from '../core/units'
+export * from '../core/pages'
+export * from '../core/layout'
+export * from '../core/tableStyle'
+export * from '../core/validate'
+export * from '../core/migrate'
+export * from '../core/jsonSchema'
+export * from '../core/pdfVector'
+export * from '../core/headless'
@@ -0,0 +1,148 @@
+// @vitest-environment jsdom
+import React from 'react'
+import { act } from 'react'
+import { createRoot } from 'react-dom/client'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { DocumentTemplateV1, TemplateV1Element } from '../src/core/types'
+
+const { buildEvalContextSpy } = vi.hoisted(() => ({ buildEvalContextSpy: vi.fn() }))
+
+vi.mock('../src/core/evaluate', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../src/core/evaluate')>()
+  buildEvalContextSpy.mockImplementation(actual.buildEvalContext)
+  return { ...actual, buildEvalContext: buildEvalContextSpy }
+})
+
+const { TemplateDesigner } = await import('../src/components/TemplateDesigner')
+
+;(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true
+
+const template: DocumentTemplateV1 = {
+  schemaVersion: 'docTemplate-v1',
+  meta: { name: 'Memo' },
+  page: { size: 'A4', orientation: 'portrait', marginPt: { topPt: 36, rightPt: 36, bottomPt: 36, leftPt: 36 } },
+  inputs: [],
+  constants: { rate: 2 },
+  variables: { total: 'constants.rate * 10' },
+  elements: [{ id: 'txt', type: 'text', rect: { xPt: 40, yPt: 40, wPt: 200, hPt: 20 }, textTpl: '{{ vars.total }}' }],
+}
+
+const container = document.createElement('div')
+const root = createRoot(container)
+
+async function render(next: DocumentTemplateV1, onTemplateChange: (t: DocumentTemplateV1) => void = () => {}) {
+  const designer = <TemplateDesigner template={next} onTemplateChange={onTemplateChange} onSave={() => {}} />
+  await act(async () => root.render(designer))
+}
+
+afterEach(async () => {
+  await act(async () => root.render(null))
+})
+
+describe('TemplateDesigner eval context', () => {
+  it('is rebuilt when variables or constants change, not when elements move', async () => {
+    await render(template)
+    const calls = buildEvalContextSpy.mock.calls.length
+    expect(calls).toBeGreaterThan(0)
+
+    const moved = { ...template.elements[0]!, rect: { ...template.elements[0]!.rect, xPt: 120 } }
+    await render({ ...template, elements: [moved] })
+    await render({ ...template, elements: [moved], meta: { name: 'Renamed' } })
+    expect(buildEvalContextSpy.mock.calls.length).toBe(calls)
+
+    await render({ ...template, elements: [moved], constants: { rate: 3 } })
+    expect(buildEvalContextSpy.mock.calls.length).toBe(calls + 1)
+    expect(container.textContent).toContain('30')
+
+    const variables = { total: 'constants.rate * 100' }
+    await render({ ...template, elements: [moved], constants: { rate: 3 }, variables })
+    expect(buildEvalContextSpy.mock.calls.length).toBe(calls + 2)
+    expect(container.textContent).toContain('300')
+  })
+})
+
+describe('TemplateDesigner table column keys', () => {
+  const table: TemplateV1Element = {
+    id: 'items',
+    type: 'table',
+    rect: { xPt: 40, yPt: 100, wPt: 300, hPt: 100 },
+    rowsExpr: '[]',
+    columns: [
+      { key: 'a', cellTpl: '{{ row.a }}' },
+      { key: 'b', cellTpl: '{{ row.b }}' },
+    ],
+  }
+  const withTable = { ...template, elements: [table] }
+
+  const keyInputs = () =>
+    Array.from(container.querySelectorAll('label'))
+      .filter((label) => label.firstElementChild?.textContent === 'Key')
+      .map((label) => label.querySelector('input')!)
+
+  async function selectTable() {
+    const el = container.querySelector('table')!.parentElement!
+    await act(async () => el.dispatchEvent(new MouseEvent('pointerdown', { bubbles: true, button: 0 })))
+  }
+
+  async function type(input: HTMLInputElement, value: string) {
+    const setValue = Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, 'value')!.set!
+    await act(async () => {
+      setValue.call(input, value)
+      input.dispatchEvent(new Event('input', { bubbles: true }))
+    })
+  }
+
+  async function press(input: HTMLInputElement, key: string) {
+    await act(async () => input.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true })))
+  }
+
+  async function blur(input: HTMLInputElement) {
+    await act(async () => input.dispatchEvent(new FocusEvent('focusout', { bubbles: true })))
+  }
+
+  it('refuses empty and duplicate keys and renames on Enter', async () => {
+    const onTemplateChange = vi.fn()
+    await render(withTable, onTemplateChange)
+    await selectTable()
+    const [first] = keyInputs()
+    expect(keyInputs().map((input) => input.value)).toEqual(['a', 'b'])
+
+    await type(first!, '  ')
+    expect(container.textContent).toContain('The key cannot be empty.')
+    await blur(first!)
+    expect(first!.value).toBe('a')
+
+    await type(first!, 'b')
+    expect(container.textContent).toContain('Another column already uses this key.')
+    await press(first!, 'Enter')
+    expect(first!.value).toBe('a')
+    expect(onTemplateChange).not.toHaveBeenCalled()
+
+    await type(first!, ' qty ')
+    await press(first!, 'Enter')
+    expect(onTemplateChange).toHaveBeenCalledTimes(1)
+    const next = onTemplateChange.mock.calls[0]![0] as DocumentTemplateV1
+    const columns = next.elements[0]!.type === 'table' ? next.elements[0]!.columns : []
+    expect(columns.map((c) => c.key)).toEqual(['qty', 'b'])
+  })
+
+  it('keeps each column editor with its column when columns move', async () => {
+    let current: DocumentTemplateV1 = withTable
+    const onTemplateChange = (next: DocumentTemplateV1) => {
+      current = next
+    }
+    await render(current, onTemplateChange)
+    await selectTable()
+    const [inputA, inputB] = keyInputs()
+
+    const buttons = Array.from(container.querySelectorAll('button'))
+    const moveLeft = buttons.filter((b) => b.textContent === '← Move left')[1]!
+    await act(async () => moveLeft.click())
+    await render(current, onTemplateChange)
+
+    const [movedB, movedA] = keyInputs()
+    expect(movedB).toBe(inputB)
+    expect(movedA).toBe(inputA)
+    expect(keyInputs().map((input) => input.value)).toEqual(['b', 'a'])
+  })
+})
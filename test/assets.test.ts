@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createPackageAssetResolver, isTemplatePackage, packTemplate, unpackTemplate } from '../src/core/assets'
+import type { DocumentTemplateV1, TemplateV1Element } from '../src/core/types'
+
+const PNG = 'data:image/png;base64,iVBORw0KGgo='
+const SVG = 'data:image/svg+xml;base64,PHN2Zy8+'
+
+function image(id: string, imageRef: string): TemplateV1Element {
+  return { id, type: 'image', rect: { xPt: 40, yPt: 40, wPt: 100, hPt: 50 }, imageRef }
+}
+
+function template(elements: TemplateV1Element[]): DocumentTemplateV1 {
+  return {
+    schemaVersion: 'docTemplate-v1',
+    meta: { name: 'Assets' },
+    page: { size: 'A4', orientation: 'portrait', marginPt: { topPt: 36, rightPt: 36, bottomPt: 36, leftPt: 36 } },
+    inputs: [],
+    constants: {},
+    variables: {},
+    elements,
+  }
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('packTemplate / unpackTemplate', () => {
+  it('round-trips a template whose images are data URLs', async () => {
+    const source = template([image('logo', PNG), image('badge', SVG)])
+    const pkg = await packTemplate(source)
+    expect(isTemplatePackage(pkg)).toBe(true)
+    expect(pkg.assets).toEqual({
+      [PNG]: { dataUrl: PNG, mimeType: 'image/png' },
+      [SVG]: { dataUrl: SVG, mimeType: 'image/svg+xml' },
+    })
+
+    const unpacked = unpackTemplate(JSON.parse(JSON.stringify(pkg)))
+    expect(unpacked.template).toEqual(source)
+    expect(unpacked.assets).toEqual(pkg.assets)
+    expect(unpacked.assetResolver!(PNG)).toBe(PNG)
+  })
+
+  it('embeds named refs through the resolver and serves them after unpacking', async () => {
+    const resolver = vi.fn((ref: string) => (ref === 'logo' ? PNG : Promise.resolve(SVG)))
+    const pkg = await packTemplate(template([image('a', 'logo'), image('b', 'seal')]), resolver)
+    expect(pkg.assets).toEqual({
+      logo: { dataUrl: PNG, mimeType: 'image/png' },
+      seal: { dataUrl: SVG, mimeType: 'image/svg+xml' },
+    })
+
+    const { assetResolver } = unpackTemplate(pkg)
+    expect(assetResolver!('logo')).toBe(PNG)
+    expect(assetResolver!('seal')).toBe(SVG)
+  })
+
+  it('embeds a ref used by several elements once', async () => {
+    const resolver = vi.fn(() => PNG)
+    const pkg = await packTemplate(template([image('a', 'logo'), image('b', 'logo')]), resolver)
+    expect(Object.keys(pkg.assets ?? {})).toEqual(['logo'])
+    expect(resolver).toHaveBeenCalledTimes(1)
+  })
+
+  it('keeps embedded assets when repacking and drops the ones no longer used', async () => {
+    const pkg = {
+      template: template([image('a', 'logo')]),
+      assets: { logo: { dataUrl: PNG, mimeType: 'image/png' }, old: { dataUrl: SVG } },
+    }
+    const resolver = vi.fn(() => SVG)
+    expect(await packTemplate(pkg, resolver)).toEqual({ template: pkg.template, assets: { logo: pkg.assets.logo } })
+    expect(resolver).not.toHaveBeenCalled()
+  })
+
+  it('fails with the ref when an image cannot be loaded', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 404 })))
+    await expect(packTemplate(template([image('a', 'https://example.test/missing.png')]))).rejects.toThrow(
+      'Could not embed image "https://example.test/missing.png": Failed to load https://example.test/missing.png: 404',
+    )
+    const rejecting = () => Promise.reject(new Error('no such asset'))
+    await expect(packTemplate(template([image('a', 'nope')]), rejecting)).rejects.toThrow(
+      'Could not embed image "nope": no such asset',
+    )
+  })
+
+  it('resolves refs that are not in the package through the fallback, or as themselves', () => {
+    const { assetResolver } = unpackTemplate({ template: template([]), assets: { logo: { dataUrl: PNG } } })
+    expect(assetResolver!('other.png')).toBe('other.png')
+    expect(assetResolver!('toString')).toBe('toString')
+
+    const fallback = vi.fn((ref: string) => `https://cdn.test/${ref}`)
+    const resolve = createPackageAssetResolver({ logo: { dataUrl: PNG } }, fallback)!
+    expect(resolve('logo')).toBe(PNG)
+    expect(resolve('other.png')).toBe('https://cdn.test/other.png')
+    expect(createPackageAssetResolver({}, fallback)).toBe(fallback)
+  })
+
+  it('passes plain templates through unchanged', () => {
+    const source = template([image('a', 'logo')])
+    const fallback = (ref: string) => ref
+    expect(unpackTemplate(source, fallback)).toEqual({ template: source, assets: {}, assetResolver: fallback })
+    expect(isTemplatePackage(source)).toBe(false)
+  })
+})
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest'
+import {
+  TemplateEvaluationError,
+  evaluateTemplate,
+  evaluateTemplateStrict,
+  formatErrorSource,
+} from '../src/core/evaluate'
+import { ExpressionError } from '../src/core/expr'
+import { renderPdf } from '../src/core/headless'
+import type { DocumentTemplateV1, TemplateV1Element } from '../src/core/types'
+
+const rect = { xPt: 40, yPt: 40, wPt: 200, hPt: 20 }
+
+function template(elements: TemplateV1Element[], variables: Record<string, string> = {}): DocumentTemplateV1 {
+  return {
+    schemaVersion: 'docTemplate-v1',
+    meta: { name: 'Evaluate' },
+    page: { size: 'A4', orientation: 'portrait', marginPt: { topPt: 36, rightPt: 36, bottomPt: 36, leftPt: 36 } },
+    inputs: [],
+    constants: {},
+    variables,
+    elements,
+  }
+}
+
+function text(id: string, textTpl: string, visibleIf?: string): TemplateV1Element {
+  return { id, type: 'text', rect, textTpl, ...(visibleIf ? { visibleIf } : {}) }
+}
+
+describe('evaluateTemplate', () => {
+  it('returns the context and no errors when everything evaluates', () => {
+    const { ctx, errors } = evaluateTemplate(template([text('t', 'Hi {{ inputs.name }}')], { n: '1 + 1' }), {
+      name: 'Ann',
+    })
+    expect(errors).toEqual([])
+    expect(ctx.vars).toEqual({ n: 2 })
+  })
+
+  it('locates template string errors by the offset the Designer underlines', () => {
+    const tpl = 'Total: {{ 1 +* 2 }} and {{ nope(1) }}'
+    const { errors } = evaluateTemplate(template([text('amount', tpl)]), {})
+    expect(errors.map((e) => [e.code, e.source])).toEqual([
+      ['parse', { elementId: 'amount', field: 'textTpl', templateOffset: tpl.indexOf('* 2') }],
+      ['unknownFunction', { elementId: 'amount', field: 'textTpl', templateOffset: tpl.indexOf('nope') }],
+    ])
+    expect(errors.map(formatErrorSource)).toEqual([
+      `amount.textTpl (offset ${tpl.indexOf('* 2')})`,
+      `amount.textTpl (offset ${tpl.indexOf('nope')})`,
+    ])
+  })
+
+  it('keeps the offset within the expression for plain expression fields', () => {
+    const { errors } = evaluateTemplate(template([text('t', 'x', 'inputs.a &&& 1')]), {})
+    expect(errors).toHaveLength(1)
+    expect(errors[0]!.source).toEqual({ elementId: 't', field: 'visibleIf' })
+    expect(errors[0]!.expression).toBe('inputs.a &&& 1')
+    expect(errors[0]!.offset).toBeGreaterThan(0)
+  })
+
+  it('reports variable errors first, then element errors in document order', () => {
+    const { errors } = evaluateTemplate(
+      template([text('a', '{{ missing() }}'), text('b', '{{ 1 + }}')], { total: 'nope(2)' }),
+      {},
+    )
+    // A parse error at the end of the expression points just past it.
+    expect(errors.map(formatErrorSource)).toEqual(['vars.total', 'a.textTpl (offset 3)', 'b.textTpl (offset 6)'])
+  })
+
+  it('skips elements hidden by visibleIf', () => {
+    const { errors } = evaluateTemplate(template([text('t', '{{ nope() }}', 'false')]), {})
+    expect(errors).toEqual([])
+  })
+
+  it('reports a cell error once, for the first row it occurs in', () => {
+    const cellTpl = 'x{{ row.qty > 1 ? nope() : row.qty }}'
+    const at = cellTpl.indexOf('nope')
+    const table: TemplateV1Element = {
+      id: 'items',
+      type: 'table',
+      rect: { ...rect, hPt: 200 },
+      rowsExpr: 'inputs.rows',
+      columns: [
+        { key: 'name', cellTpl: '{{ row.name }}' },
+        { key: 'qty', cellTpl },
+      ],
+    }
+    const rows = [{ name: 'a', qty: 1 }, { name: 'b', qty: 2 }, { name: 'c', qty: 3 }]
+    const { errors } = evaluateTemplate(template([table]), { rows })
+    expect(errors).toHaveLength(1)
+    expect(errors[0]!.source).toEqual({ elementId: 'items', field: 'columns[1].cellTpl', templateOffset: at, row: 1 })
+    expect(formatErrorSource(errors[0]!)).toBe(`items.columns[1].cellTpl (offset ${at}) (row 2)`)
+  })
+
+  it('reports rowsExpr values that are not arrays', () => {
+    const table: TemplateV1Element = {
+      id: 'items',
+      type: 'table',
+      rect,
+      rowsExpr: 'inputs.rows',
+      columns: [{ key: 'name', cellTpl: '{{ row.name }}' }],
+    }
+    const { errors } = evaluateTemplate(template([table]), { rows: 'abc' })
+    expect(errors.map((e) => [e.code, formatErrorSource(e)])).toEqual([['type', 'items.rowsExpr']])
+  })
+})
+
+describe('evaluateTemplateStrict', () => {
+  it('returns the context when nothing fails', () => {
+    const ctx = evaluateTemplateStrict(template([text('t', '{{ vars.n }}')], { n: '2 * 3' }), {})
+    expect(ctx.vars).toEqual({ n: 6 })
+  })
+
+  it('blocks on a single error and names its element and field', () => {
+    const tpl = 'Total: {{ nope(1) }}'
+    let thrown: unknown
+    try {
+      evaluateTemplateStrict(template([text('ok', 'fine'), text('amount', tpl)]), {})
+    } catch (e) {
+      thrown = e
+    }
+    expect(thrown).toBeInstanceOf(TemplateEvaluationError)
+    const error = thrown as TemplateEvaluationError
+    expect(error.errors).toHaveLength(1)
+    expect(error.errors[0]).toBeInstanceOf(ExpressionError)
+    expect(error.errors[0]!.source).toMatchObject({ elementId: 'amount', field: 'textTpl' })
+    expect(error.message).toMatch(/^Document not printed: 1 expression error\n {2}amount\.textTpl \(offset 10\): /)
+  })
+
+  it('lists every error in the report', () => {
+    const run = () => evaluateTemplateStrict(template([text('a', '{{ 1 + }}')], { total: 'nope()' }), {})
+    expect(run).toThrow('Document not printed: 2 expression errors\n  vars.total: ')
+    expect(run).toThrow('\n  a.textTpl (offset 6): ')
+  })
+
+  it('stops headless rendering before any output is produced', async () => {
+    const broken = template([text('amount', '{{ nope() }}')])
+    await expect(renderPdf(broken, {}, { strict: true })).rejects.toBeInstanceOf(TemplateEvaluationError)
+    await expect(renderPdf(broken, {}, { strict: true })).rejects.toThrow('amount.textTpl (offset 3)')
+  })
+})
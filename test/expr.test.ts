@@ -0,0 +1,261 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  DEFAULT_EVAL_LIMITS,
+  EXPRESSION_CACHE_SIZE,
+  EvalLimitError,
+  compileExpression,
+  defaultFunctions,
+  evalExpression,
+  parseExpression,
+} from '../src/core/expr'
+import { createLruCache } from '../src/core/lru'
+import type { EvalContext, EvalLimits } from '../src/core/types'
+
+const items = [
+  { group: 'b', qty: 1, rank: 2 },
+  { group: 'a', qty: 2, rank: 1 },
+  { group: 'b', qty: 3, rank: 2 },
+  { group: 'a', qty: 4, rank: 1 },
+]
+
+function context(inputs: Record<string, unknown> = {}, patch: Partial<EvalContext> = {}): EvalContext {
+  return { inputs: { list: [3, 1, 2], items, ...inputs }, constants: {}, vars: {}, ...patch }
+}
+
+function run(expr: string, ctx = context()): unknown {
+  return evalExpression(expr, ctx)
+}
+
+describe('lambda helpers', () => {
+  it('map, filter and sum take a lambda or a property name', () => {
+    expect(run('map(inputs.list, x => x * 2)')).toEqual([6, 2, 4])
+    expect(run('map(inputs.list, (x, i) => i)')).toEqual([0, 1, 2])
+    expect(run('filter(inputs.list, x => x > 1)')).toEqual([3, 2])
+    expect(run('sum(inputs.items, x => x.qty)')).toBe(10)
+    expect(run('sum(inputs.items, "qty")')).toBe(10)
+    expect(run('sum(inputs.list)')).toBe(6)
+    expect(run('count(inputs.items, x => x.group == "a")')).toBe(2)
+  })
+
+  it('rejects reserved names and non-names as parameters', () => {
+    for (const name of ['row', 'inputs', 'constants', 'vars', 'page', 'undefined']) {
+      expect(() => run(`map(inputs.list, ${name} => 1)`)).toThrow(`'${name}' cannot be used as a lambda parameter`)
+    }
+    expect(() => run('map(inputs.list, x.y => 1)')).toThrow('Lambda parameters must be plain names')
+    expect(() => run('map(inputs.list, 3)')).toThrow(expect.objectContaining({ code: 'type' }))
+  })
+
+  it('lets nested lambdas read the parameters of the enclosing ones', () => {
+    expect(run('map(inputs.list, x => map(inputs.list, y => x * 10 + y))')).toEqual([
+      [33, 31, 32],
+      [13, 11, 12],
+      [23, 21, 22],
+    ])
+    expect(run('map(inputs.list, x => filter(inputs.list, x => x > 2))')).toEqual([[3], [3], [3]])
+    expect(run('map(inputs.list, x => count(inputs.list, y => y > x))')).toEqual([0, 2, 1])
+  })
+
+  it('keeps the input order of equal keys in sortBy, in both directions', () => {
+    const qty = (expr: string) => (run(expr) as typeof items).map((item) => item.qty)
+    expect(qty('sortBy(inputs.items, x => x.rank)')).toEqual([2, 4, 1, 3])
+    expect(qty('sortBy(inputs.items, "rank", "desc")')).toEqual([1, 3, 2, 4])
+    expect(run('sortBy(inputs.list, x => x)')).toEqual([1, 2, 3])
+    expect(run('sortBy([2, null, 1], x => x, "desc")')).toEqual([2, 1, null])
+    expect(() => run('sortBy(inputs.list, x => x, "up")')).toThrow('direction must be "asc" or "desc"')
+  })
+
+  it('groupBy returns { key, items } in order of first appearance', () => {
+    expect(run('groupBy(inputs.items, x => x.group)')).toEqual([
+      { key: 'b', items: [items[0], items[2]] },
+      { key: 'a', items: [items[1], items[3]] },
+    ])
+    expect(run('map(groupBy(inputs.items, "group"), g => g.key + ":" + sum(g.items, "qty"))')).toEqual(['b:4', 'a:6'])
+    expect(run('groupBy([], x => x)')).toEqual([])
+  })
+
+  it('treats anything but an array as an empty list', () => {
+    expect(run('map(inputs.missing, x => x)')).toEqual([])
+    expect(run('sum("12", x => x)')).toBe(0)
+  })
+})
+
+describe('member access', () => {
+  const record = { name: 'Ada', 'a.b': 2, 0: 'zero', nested: { x: 1 } }
+
+  it('reads through null with ?. and treats missing members as undefined', () => {
+    const ctx = context({ none: null, record })
+    expect(run('inputs.none?.name', ctx)).toBeUndefined()
+    expect(run('inputs.missing?.name.first', ctx)).toBeUndefined()
+    expect(run('inputs.none.name', ctx)).toBeUndefined()
+    expect(run('inputs.record?.nested?.x', ctx)).toBe(1)
+    expect(run('inputs.none?.name ?? "n/a"', ctx)).toBe('n/a')
+  })
+
+  it('gives ?? the precedence of ||, grouping left to right, with && binding tighter', () => {
+    expect(run('null ?? "d"')).toBe('d')
+    expect(run('0 ?? "d"')).toBe(0)
+    expect(run('"" ?? "d"')).toBe('')
+    expect(run('0 || "d"')).toBe('d')
+    expect(run('0 ?? 1 || 2')).toBe(2)
+    expect(run('1 || 0 ?? 2')).toBe(1)
+    expect(run('null ?? 0 && 5')).toBe(0)
+    // The right-hand side is only evaluated when needed.
+    expect(run('1 ?? unknownFn()')).toBe(1)
+  })
+
+  it('supports computed string and integer keys', () => {
+    const ctx = context({ record, key: 'name' })
+    expect(run('inputs.record["a.b"]', ctx)).toBe(2)
+    expect(run('inputs.record[inputs.key]', ctx)).toBe('Ada')
+    expect(run('inputs.record[0]', ctx)).toBe('zero')
+    expect(run('inputs.list[1]', ctx)).toBe(1)
+    expect(run('inputs.list[-1]', ctx)).toBeUndefined()
+    expect(run('inputs.list[3]', ctx)).toBeUndefined()
+    expect(run('inputs.record[inputs.missing]', ctx)).toBeUndefined()
+    expect(() => run('inputs.record[1.5]', ctx)).toThrow('Computed member keys must be strings or integers')
+    expect(() => run('inputs.record[inputs.record]', ctx)).toThrow(expect.objectContaining({ code: 'type' }))
+  })
+
+  it('only reads own data properties', () => {
+    const ctx = context({ record })
+    for (const key of ['constructor', '__proto__', 'prototype', 'toString', 'hasOwnProperty', 'valueOf']) {
+      expect(run(`inputs.record.${key}`, ctx)).toBeUndefined()
+      expect(run(`inputs.record["${key}"]`, ctx)).toBeUndefined()
+    }
+    expect(run('inputs.list.length', ctx)).toBeUndefined()
+    expect(run('inputs.list["map"]', ctx)).toBeUndefined()
+    expect(run('"abc".length', ctx)).toBeUndefined()
+    expect(run('map.name', ctx)).toBeUndefined()
+  })
+
+  it('reads an own property named like a prototype member as data', () => {
+    const own = JSON.parse('{"toString": "own", "constructor": "c"}') as Record<string, unknown>
+    expect(run('inputs.own.toString', context({ own }))).toBe('own')
+    expect(run('inputs.own.constructor', context({ own }))).toBeUndefined()
+  })
+})
+
+describe('compile cache', () => {
+  function compileError(expr: string): unknown {
+    try {
+      compileExpression(expr)
+    } catch (e) {
+      return e
+    }
+    throw new Error(`${expr} compiled`)
+  }
+
+  it('returns the same compiled expression for the same source', () => {
+    const run = compileExpression('inputs.list[0] + 1')
+    expect(compileExpression('inputs.list[0] + 1')).toBe(run)
+    expect(parseExpression('inputs.list[0] + 1')).toBe(parseExpression('inputs.list[0] + 1'))
+    expect(run(context())).toBe(4)
+    expect(run(context({ list: [10] }))).toBe(11)
+  })
+
+  it('caches parse errors and throws the same error again', () => {
+    const error = compileError('1 +* 2')
+    expect(error).toMatchObject({ code: 'parse', expression: '1 +* 2', offset: 3 })
+    expect(compileError('1 +* 2')).toBe(error)
+    expect(() => parseExpression('1 +* 2')).toThrow(error as Error)
+  })
+
+  it('evicts the least recently used expression once full', () => {
+    const kept = compileExpression('"kept"')
+    const evicted = compileExpression('"evicted"')
+    for (let i = 0; i < EXPRESSION_CACHE_SIZE - 1; i += 1) {
+      compileExpression(`${i} + 0`)
+      // Using "kept" makes it the most recently used entry each time.
+      if (i % 100 === 0) compileExpression('"kept"')
+    }
+    compileExpression('"kept"')
+    compileExpression('"one more"')
+    expect(compileExpression('"kept"')).toBe(kept)
+    expect(compileExpression('"evicted"')).not.toBe(evicted)
+  })
+})
+
+describe('createLruCache', () => {
+  it('creates values on a miss and drops the least recently used entry', () => {
+    const cache = createLruCache<number>(2)
+    const create = vi.fn(() => 0)
+    expect(cache.get('a', () => 1)).toBe(1)
+    expect(cache.get('b', () => 2)).toBe(2)
+    expect(cache.get('a', create)).toBe(1)
+    expect(create).not.toHaveBeenCalled()
+    // 'b' is now the least recently used entry.
+    expect(cache.get('c', () => 3)).toBe(3)
+    expect(cache.get('a', create)).toBe(1)
+    expect(cache.get('b', () => 20)).toBe(20)
+    cache.clear()
+    expect(cache.get('a', () => 10)).toBe(10)
+  })
+})
+
+describe('evaluation limits', () => {
+  function limitHit(expr: string, ctx = context()): keyof EvalLimits | undefined {
+    try {
+      run(expr, ctx)
+    } catch (e) {
+      if (e instanceof EvalLimitError) return e.limit
+      throw e
+    }
+    return undefined
+  }
+
+  const big = Array.from({ length: 100 }, (_, i) => i)
+  const limited = (limits: Partial<EvalLimits>) => context({ big }, { limits })
+
+  it('stops strings that would exceed maxStringLength before building them', () => {
+    expect(limitHit('padStart("", 1e9)')).toBe('maxStringLength')
+    expect(limitHit('padEnd("x", 1e9, "ab")')).toBe('maxStringLength')
+    expect(limitHit('padStart("", 10)', limited({ maxStringLength: 5 }))).toBe('maxStringLength')
+    const error = expect.objectContaining({ code: 'limit', expression: 'padStart("", 1e9)' })
+    expect(() => run('padStart("", 1e9)')).toThrow(error)
+  })
+
+  it('counts the steps run inside lambdas', () => {
+    expect(limitHit('map(inputs.big, x => x * 2)', limited({ maxSteps: 50 }))).toBe('maxSteps')
+    expect(limitHit('map(inputs.big, x => x * 2)', limited({ maxSteps: 1000 }))).toBeUndefined()
+  })
+
+  it('limits nesting depth, AST size and array length', () => {
+    expect(limitHit(`1${' + 1'.repeat(DEFAULT_EVAL_LIMITS.maxDepth + 10)}`)).toBe('maxDepth')
+    expect(limitHit('[[[[[[1]]]]]]', limited({ maxDepth: 4 }))).toBe('maxDepth')
+    expect(limitHit(`1${' + 1'.repeat(20)}`, limited({ maxAstNodes: 10 }))).toBe('maxAstNodes')
+    expect(limitHit('sum(inputs.big)', limited({ maxArrayLength: 10 }))).toBe('maxArrayLength')
+  })
+
+  it('stops evaluations that run past timeoutMs', () => {
+    const ctx = limited({ timeoutMs: 1 })
+    const busy = () => {
+      const until = Date.now() + 2
+      while (Date.now() < until) {
+        // Wait.
+      }
+      return 0
+    }
+    const functions = { ...defaultFunctions(), busy }
+    expect(() => evalExpression('map(inputs.big, x => map(inputs.big, y => busy()))', ctx, functions)).toThrow(
+      expect.objectContaining({ limit: 'timeoutMs' }),
+    )
+  })
+
+  it('restores the outer limits after a limited evaluation throws', () => {
+    expect(limitHit('padStart("", 10)', limited({ maxStringLength: 5 }))).toBe('maxStringLength')
+    // Outside any evaluation, and in a later one, the default limits apply again.
+    expect(defaultFunctions().padStart('', 10)).toBe(' '.repeat(10))
+    expect(run('padStart("", 10)')).toBe(' '.repeat(10))
+
+    // A nested evaluation that fails doesn't leave its limits on the evaluation that called it.
+    const inner = () => {
+      try {
+        return evalExpression('padStart("", 10)', limited({ maxStringLength: 5 }))
+      } catch {
+        return 'caught'
+      }
+    }
+    const functions = { ...defaultFunctions(), inner }
+    expect(evalExpression('inner() + padStart("", 10)', context(), functions)).toBe(`caught${' '.repeat(10)}`)
+  })
+})
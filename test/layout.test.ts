@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest'
+import { layoutDocument, paginateTableRows } from '../src/core/layout'
+import { buildEvalContext } from '../src/core/evaluate'
+import type { DocumentTemplateV1, TableElementV1, TemplatePage } from '../src/core/types'
+
+// Rows and the header row are 20pt tall, so a 100pt rect holds the header and 4 rows.
+function table(patch: Partial<TableElementV1> = {}): TableElementV1 {
+  return {
+    id: 'tbl',
+    type: 'table',
+    rect: { xPt: 0, yPt: 0, wPt: 200, hPt: 100 },
+    rowsExpr: 'constants.items',
+    columns: [{ key: 'n', cellTpl: '{{ row.n }}' }],
+    rowHeightPt: 20,
+    overflow: 'paginate',
+    ...patch,
+  }
+}
+
+// A 200×200pt page without margins: continuation pages hold the header and 9 rows.
+const page: TemplatePage = {
+  size: 'CUSTOM',
+  orientation: 'portrait',
+  customSizePt: { wPt: 200, hPt: 200 },
+  marginPt: { topPt: 0, rightPt: 0, bottomPt: 0, leftPt: 0 },
+}
+
+function template(rowCount: number, patch: Partial<DocumentTemplateV1> = {}): DocumentTemplateV1 {
+  return {
+    schemaVersion: 'docTemplate-v1',
+    meta: { name: 'Layout' },
+    page,
+    inputs: [],
+    constants: { items: Array.from({ length: rowCount }, (_, n) => ({ n })) },
+    variables: {},
+    elements: [table()],
+    ...patch,
+  }
+}
+
+function layout(t: DocumentTemplateV1) {
+  return layoutDocument(t, buildEvalContext(t, {}).ctx)
+}
+
+describe('paginateTableRows', () => {
+  it('keeps 0 rows and an exact fit on one page', () => {
+    expect(paginateTableRows(table(), 0, 200)).toEqual([0])
+    expect(paginateTableRows(table(), 4, 200)).toEqual([4])
+  })
+
+  it('moves one row over to a continuation page', () => {
+    expect(paginateTableRows(table(), 5, 200)).toEqual([4, 1])
+    expect(paginateTableRows(table(), 4 + 9 + 1, 200)).toEqual([4, 9, 1])
+  })
+
+  it('leaves room for the continued caption on continuation pages', () => {
+    expect(paginateTableRows(table({ continuedCaption: 'continued' }), 4 + 9, 200)).toEqual([4, 8, 1])
+  })
+
+  it('pulls rows forward so the last page has minRowsPerPage rows', () => {
+    expect(paginateTableRows(table({ minRowsPerPage: 2 }), 5, 200)).toEqual([3, 2])
+    expect(paginateTableRows(table({ minRowsPerPage: 3 }), 7, 200)).toEqual([4, 3])
+  })
+
+  it('starts the table on the next page when fewer than minRowsPerPage rows fit', () => {
+    const low = table({ rect: { xPt: 0, yPt: 150, wPt: 200, hPt: 50 }, minRowsPerPage: 2 })
+    expect(paginateTableRows(low, 5, 200)).toEqual([0, 5])
+    expect(paginateTableRows({ ...low, minRowsPerPage: 1 }, 5, 200)).toEqual([1, 4])
+  })
+
+  it('makes progress when not even one row fits a page', () => {
+    expect(paginateTableRows(table(), 6, 10)).toEqual([4, 1, 1])
+  })
+})
+
+describe('layoutDocument', () => {
+  it('lays out a table without rows on one page', () => {
+    const pages = layout(template(0))
+    expect(pages).toHaveLength(1)
+    expect(pages[0]!.tables.tbl).toEqual({ rows: [], startIndex: 0, continued: false })
+  })
+
+  it('adds continuation pages with the remaining rows', () => {
+    const pages = layout(template(4 + 9 + 1))
+    expect(pages.map((p) => p.id)).toEqual(['page_1', 'page_1~tbl~1', 'page_1~tbl~2'])
+    expect(pages.map((p) => p.continuation)).toEqual([false, true, true])
+    const slices = pages.map((p) => p.tables.tbl!)
+    expect(slices.map((slice) => [slice.startIndex, slice.rows.length, slice.continued])).toEqual([
+      [0, 4, false],
+      [4, 9, true],
+      [13, 1, true],
+    ])
+    // Continuation pages carry only the table, stretched over the content area.
+    expect(pages[1]!.elements).toHaveLength(1)
+    expect(pages[1]!.elements[0]!.rect).toEqual({ xPt: 0, yPt: 0, wPt: 200, hPt: 200 })
+  })
+
+  it('moves a table that starts too low to the next page', () => {
+    const low = table({ rect: { xPt: 0, yPt: 150, wPt: 200, hPt: 50 }, minRowsPerPage: 2 })
+    const pages = layout(template(5, { elements: [low] }))
+    expect(pages).toHaveLength(2)
+    expect(pages[0]!.tables.tbl).toBeUndefined()
+    expect(pages[1]!.tables.tbl).toEqual({ rows: expect.any(Array), startIndex: 0, continued: false })
+    expect(pages[1]!.tables.tbl!.rows).toHaveLength(5)
+  })
+
+  it('numbers pages across the document and within each template page', () => {
+    const pages = layout(template(5, { pages: [{ id: 'page_2', elements: [] }] }))
+    expect(pages.map((p) => p.pageInfo)).toEqual([
+      { number: 1, count: 3, section: 1, sectionNumber: 1, sectionCount: 2 },
+      { number: 2, count: 3, section: 1, sectionNumber: 2, sectionCount: 2 },
+      { number: 3, count: 3, section: 2, sectionNumber: 1, sectionCount: 1 },
+    ])
+    expect(pages.map((p) => p.sourceIndex)).toEqual([0, 0, 1])
+  })
+
+  it('never paginates tables in a band and keeps continuation pages below the header', () => {
+    const bandTable = table({ id: 'bandTbl', rect: { xPt: 0, yPt: 0, wPt: 200, hPt: 40 } })
+    const withHeader = { ...page, header: { heightPt: 40, elements: [bandTable] } }
+    const body = table({ rect: { xPt: 0, yPt: 40, wPt: 200, hPt: 100 } })
+    const pages = layout(template(5, { page: withHeader, elements: [body] }))
+    expect(pages).toHaveLength(2)
+    // The band's table repeats with all its rows on every page, continuation pages included.
+    for (const p of pages) {
+      expect(p.tables.bandTbl).toMatchObject({ startIndex: 0, continued: false })
+      expect(p.tables.bandTbl!.rows).toHaveLength(5)
+    }
+    expect(pages[1]!.elements[0]!.rect).toMatchObject({ yPt: 40, hPt: 160 })
+    expect(pages[1]!.header?.elements).toEqual([bandTable])
+  })
+})
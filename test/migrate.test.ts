@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest'
+import {
+  LATEST_SCHEMA_VERSION,
+  TEMPLATE_MIGRATIONS,
+  TemplateMigrationError,
+  UNVERSIONED,
+  detectSchemaVersion,
+  migrateTemplate,
+} from '../src/core/migrate'
+import { validateTemplate } from '../src/core/validate'
+
+const page = {
+  size: 'A4',
+  orientation: 'portrait',
+  marginPt: { topPt: 36, rightPt: 36, bottomPt: 36, leftPt: 36 },
+}
+
+describe('TEMPLATE_MIGRATIONS', () => {
+  it('chains from unversioned templates to the latest version', () => {
+    expect(TEMPLATE_MIGRATIONS[0]!.from).toBe(UNVERSIONED)
+    TEMPLATE_MIGRATIONS.slice(1).forEach((step, i) => expect(step.from).toBe(TEMPLATE_MIGRATIONS[i]!.to))
+    expect(TEMPLATE_MIGRATIONS.at(-1)!.to).toBe(LATEST_SCHEMA_VERSION)
+  })
+})
+
+describe('unversioned → docTemplate-v1', () => {
+  it('sets the version and fills the sections early exports omitted', () => {
+    const { template, fromVersion, toVersion, changes } = migrateTemplate({ page, elements: [] })
+    expect(fromVersion).toBe(UNVERSIONED)
+    expect(toVersion).toBe('docTemplate-v1')
+    expect(template).toEqual({
+      schemaVersion: 'docTemplate-v1',
+      meta: { name: 'Untitled' },
+      page,
+      inputs: [],
+      constants: {},
+      variables: {},
+      elements: [],
+    })
+    expect(changes).toEqual([
+      "Set schemaVersion to 'docTemplate-v1'",
+      'Added missing "meta"',
+      'Added missing "inputs"',
+      'Added missing "constants"',
+      'Added missing "variables"',
+    ])
+    expect(validateTemplate(template).valid).toBe(true)
+  })
+
+  it('keeps the sections that are present', () => {
+    const json = {
+      meta: { name: 'Invoice' },
+      page,
+      inputs: [{ key: 'name', label: 'Name', type: 'text' }],
+      constants: { rate: 2 },
+      variables: { total: 'constants.rate * 2' },
+      elements: [],
+    }
+    const { template, changes } = migrateTemplate(json)
+    expect(template).toEqual({ ...json, schemaVersion: 'docTemplate-v1' })
+    expect(changes).toEqual(["Set schemaVersion to 'docTemplate-v1'"])
+  })
+
+  it('gives templates without a page an A4 portrait page', () => {
+    const { template, changes } = migrateTemplate({ meta: { name: 'No page' }, elements: [] })
+    expect(template.page).toEqual(page)
+    expect(changes).toContain('Added missing "page" (A4 portrait, 36 pt margins)')
+    expect(validateTemplate(template).valid).toBe(true)
+  })
+
+  it('leaves a malformed page for validateTemplate to report', () => {
+    const { template, changes } = migrateTemplate({ page: 'A4', elements: [] })
+    expect(template.page).toBe('A4')
+    expect(changes.some((c) => c.includes('"page"'))).toBe(false)
+    expect(validateTemplate(template).diagnostics).toContainEqual(
+      expect.objectContaining({ path: '$.page', severity: 'error' }),
+    )
+  })
+
+  it('does not modify the input', () => {
+    const json = { page, elements: [] }
+    migrateTemplate(json)
+    expect(json).toEqual({ page, elements: [] })
+  })
+})
+
+describe('migrateTemplate', () => {
+  it('returns current templates unchanged, including the optional v1 additions', () => {
+    const json = {
+      schemaVersion: 'docTemplate-v1',
+      meta: { name: 'x' },
+      page: { ...page, header: { heightPt: 40, elements: [] } },
+      inputs: [],
+      constants: {},
+      variables: {},
+      elements: [],
+      pages: [{ id: 'page_2', orientation: 'landscape', elements: [] }],
+    }
+    const { template, fromVersion, changes } = migrateTemplate(json)
+    expect(fromVersion).toBe('docTemplate-v1')
+    expect(template).toEqual(json)
+    expect(template).not.toBe(json)
+    expect(changes).toEqual([])
+  })
+
+  it('rejects unknown versions and non-templates', () => {
+    const future = { schemaVersion: 'docTemplate-v9' }
+    expect(() => migrateTemplate(future)).toThrow(TemplateMigrationError)
+    expect(() => migrateTemplate(future)).toThrow("Unsupported schemaVersion 'docTemplate-v9'")
+    expect(() => detectSchemaVersion({ schemaVersion: 1 })).toThrow('schemaVersion must be a string')
+    expect(() => detectSchemaVersion([])).toThrow('Template JSON must be an object')
+  })
+})
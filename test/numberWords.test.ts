@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+import { currencyToWords, numberToWords } from '../src/core/numberWords'
+import { buildEvalContext } from '../src/core/evaluate'
+
+describe('numberToWords', () => {
+  it.each([
+    [0, 'zero'],
+    [13, 'thirteen'],
+    [19, 'nineteen'],
+    [20, 'twenty'],
+    [21, 'twenty-one'],
+    [99, 'ninety-nine'],
+    [1000, 'one thousand'],
+    [1021, 'one thousand twenty-one'],
+    [1_000_000, 'one million'],
+    [2_000_000_000, 'two billion'],
+    [250_000, 'two hundred fifty thousand'],
+  ])('writes %d in English', (value, words) => {
+    expect(numberToWords(value, 'en')).toBe(words)
+  })
+
+  it.each([
+    [15, 'quince'],
+    [16, 'dieciséis'],
+    [21, 'veintiuno'],
+    [22, 'veintidós'],
+    [100, 'cien'],
+    [101, 'ciento uno'],
+    [500, 'quinientos'],
+    [1000, 'mil'],
+    [21_000, 'veintiún mil'],
+    [1_000_000, 'un millón'],
+    [2_000_000, 'dos millones'],
+    [1e9, 'mil millones'],
+    [1e12, 'un billón'],
+  ])('writes %d in Spanish', (value, words) => {
+    expect(numberToWords(value, 'es')).toBe(words)
+  })
+
+  it('applies the Spanish feminine and apocope forms', () => {
+    expect(numberToWords(21, 'es', { apocope: true })).toBe('veintiún')
+    expect(numberToWords(21, 'es', { feminine: true })).toBe('veintiuna')
+    expect(numberToWords(201, 'es', { feminine: true })).toBe('doscientas una')
+  })
+
+  it('writes negatives and non-integers', () => {
+    expect(numberToWords(-7, 'en')).toBe('minus seven')
+    expect(numberToWords(-3, 'es')).toBe('menos tres')
+    expect(numberToWords(3.14, 'en')).toBe('three point one four')
+    expect(numberToWords(0.5, 'en')).toBe('zero point five')
+    expect(numberToWords(2.5, 'es-MX')).toBe('dos punto cinco')
+    expect(numberToWords(2.5, 'es-ES')).toBe('dos coma cinco')
+  })
+
+  it('applies the case option', () => {
+    expect(numberToWords(5, 'en', { case: 'upper' })).toBe('FIVE')
+    expect(numberToWords(5, 'en', { case: 'sentence' })).toBe('Five')
+  })
+
+  it('rejects unsupported input', () => {
+    expect(numberToWords(Number.NaN, 'en')).toBe('')
+    expect(() => numberToWords(1e15, 'en')).toThrow('too large')
+    expect(() => numberToWords(1, 'fr')).toThrow("locale 'fr'")
+  })
+})
+
+describe('currencyToWords', () => {
+  it('writes amounts with cents as a fraction', () => {
+    expect(currencyToWords(250_000, 'USD', 'en')).toBe('two hundred fifty thousand dollars and 00/100')
+    expect(currencyToWords(1, 'USD', 'en')).toBe('one dollar and 00/100')
+    expect(currencyToWords(0.01, 'USD', 'en')).toBe('zero dollars and 01/100')
+    expect(currencyToWords(21, 'USD', 'es')).toBe('veintiún dólares 00/100')
+    expect(currencyToWords(21_000, 'USD', 'es')).toBe('veintiún mil dólares 00/100')
+  })
+
+  it('puts "de" after whole millions in Spanish', () => {
+    expect(currencyToWords(1_000_000, 'MXN', 'es')).toBe('un millón de pesos 00/100')
+    expect(currencyToWords(2_000_000, 'USD', 'es')).toBe('dos millones de dólares 00/100')
+    expect(currencyToWords(1_500_000, 'USD', 'es')).toBe('un millón quinientos mil dólares 00/100')
+  })
+
+  it('rounds to the currency minor unit the way the formatted amount does', () => {
+    expect(currencyToWords(0.995, 'USD', 'en')).toBe('one dollar and 00/100')
+    expect(currencyToWords(1.995, 'USD', 'en')).toBe('two dollars and 00/100')
+    expect(currencyToWords(2.675, 'USD', 'en')).toBe('two dollars and 68/100')
+    expect(currencyToWords(1.005, 'USD', 'en')).toBe('one dollar and 01/100')
+    expect(currencyToWords(10.285, 'USD', 'en')).toBe('ten dollars and 29/100')
+    expect(currencyToWords(1234, 'JPY', 'en')).toBe('one thousand two hundred thirty-four yen')
+    for (const value of [2.675, 1.005, 10.285, 0.995, 123456789.125]) {
+      const cents = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value).split('.')[1]
+      expect(currencyToWords(value, 'USD', 'en')).toContain(`${cents}/100`)
+    }
+  })
+
+  it('writes negatives, dropping the sign when the amount rounds to zero', () => {
+    expect(currencyToWords(-12.5, 'USD', 'en')).toBe('minus twelve dollars and 50/100')
+    expect(currencyToWords(-0.001, 'USD', 'en')).toBe('zero dollars and 00/100')
+  })
+
+  it('spells out cents', () => {
+    expect(currencyToWords(1.25, 'USD', 'en', { cents: 'words' })).toBe('one dollar and twenty-five cents')
+    expect(currencyToWords(1.01, 'USD', 'es', { cents: 'words' })).toBe('un dólar con un centavo')
+    expect(currencyToWords(3, 'USD', 'en', { cents: 'words' })).toBe('three dollars')
+  })
+})
+
+describe('expression helpers', () => {
+  it('default the locale to the template locale', () => {
+    const variables = { words: 'numberToWords(21000)', amount: 'currencyToWords(1000000, "MXN")' }
+    const { ctx, errors } = buildEvalContext({ locale: 'es-MX', constants: {}, variables }, {})
+    expect(errors).toEqual([])
+    expect(ctx.vars).toEqual({ words: 'veintiún mil', amount: 'un millón de pesos 00/100' })
+  })
+})
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest'
+import { validateTemplate } from '../src/core/validate'
+import type { DocumentTemplateV1, TemplateV1Element } from '../src/core/types'
+
+const page = {
+  size: 'A4',
+  orientation: 'portrait',
+  marginPt: { topPt: 36, rightPt: 36, bottomPt: 36, leftPt: 36 },
+} as const
+
+function template(patch: Record<string, unknown> = {}): DocumentTemplateV1 {
+  return {
+    schemaVersion: 'docTemplate-v1',
+    meta: { name: 'Validate' },
+    page,
+    inputs: [{ key: 'name', label: 'Name', type: 'string' }],
+    constants: {},
+    variables: { greeting: '"Hi " + inputs.name' },
+    elements: [
+      { id: 'txt', type: 'text', rect: { xPt: 40, yPt: 40, wPt: 200, hPt: 20 }, textTpl: '{{ vars.greeting }}' },
+    ],
+    ...patch,
+  } as DocumentTemplateV1
+}
+
+function table(patch: Record<string, unknown> = {}): TemplateV1Element {
+  return {
+    id: 'tbl',
+    type: 'table',
+    rect: { xPt: 40, yPt: 100, wPt: 300, hPt: 200 },
+    rowsExpr: 'inputs.items',
+    columns: [{ key: 'name', cellTpl: '{{ row.name }}' }],
+    ...patch,
+  } as TemplateV1Element
+}
+
+function diagnostics(json: unknown): Array<[string, string]> {
+  return validateTemplate(json).diagnostics.map((d) => [d.severity, d.path])
+}
+
+describe('validateTemplate', () => {
+  it('accepts a well-formed template', () => {
+    expect(validateTemplate(template())).toEqual({ valid: true, diagnostics: [] })
+  })
+
+  it('reports structural problems with their JSON path', () => {
+    expect(validateTemplate(null).valid).toBe(false)
+    expect(diagnostics(template({ schemaVersion: 'v0', meta: undefined, page: undefined }))).toEqual(
+      expect.arrayContaining([
+        ['error', '$.schemaVersion'],
+        ['error', '$.meta'],
+        ['error', '$.page'],
+      ]),
+    )
+    const inputs = [
+      { key: 'a', label: 'A', type: 'string' },
+      { key: 'a', label: 'A', type: 'colour' },
+    ]
+    expect(diagnostics(template({ inputs }))).toEqual([
+      ['error', '$.inputs[1].key'],
+      ['error', '$.inputs[1].type'],
+    ])
+  })
+
+  it('reports duplicate element ids across pages', () => {
+    const { diagnostics: found } = validateTemplate(
+      template({ pages: [{ id: 'p2', elements: [{ ...template().elements[0]! }] }] }),
+    )
+    expect(found).toEqual([
+      {
+        path: '$.pages[0].elements[0].id',
+        severity: 'error',
+        message: "Duplicate element id 'txt' (also used at $.elements[0])",
+      },
+    ])
+  })
+
+  it('reports expressions that do not parse', () => {
+    const elements = [
+      { id: 'txt', type: 'text', rect: { xPt: 40, yPt: 40, wPt: 200, hPt: 20 }, textTpl: 'Hi {{ inputs. }}' },
+      { id: 'qr', type: 'qr', rect: { xPt: 40, yPt: 80, wPt: 50, hPt: 50 }, dataTpl: 'x', visibleIf: '1 +' },
+    ]
+    expect(diagnostics(template({ elements }))).toEqual([
+      ['error', '$.elements[0].textTpl'],
+      ['error', '$.elements[1].visibleIf'],
+    ])
+    expect(validateTemplate(template({ elements })).diagnostics[0]!.message).toContain('at offset 3')
+  })
+
+  it('uses bracket paths for variable keys that are not identifiers', () => {
+    const variables = { ok: '1 +', 'tax.rate': '2 +', 'due date': '' }
+    expect(diagnostics(template({ variables }))).toEqual([
+      ['error', '$.variables.ok'],
+      ['error', '$.variables["tax.rate"]'],
+      ['error', '$.variables["due date"]'],
+    ])
+  })
+
+  it('requires whole numbers where the schema declares integers', () => {
+    const elements = [
+      table({ overflow: 'paginate', minRowsPerPage: 1.5 }),
+      { id: 'qr', type: 'qr', rect: { xPt: 40, yPt: 400, wPt: 50, hPt: 50 }, dataTpl: 'x', marginModules: 2.5 },
+    ]
+    expect(validateTemplate(template({ elements })).diagnostics).toEqual([
+      { path: '$.elements[0].minRowsPerPage', severity: 'error', message: 'Expected a whole number, got 1.5' },
+      { path: '$.elements[1].marginModules', severity: 'error', message: 'Expected a whole number, got 2.5' },
+    ])
+    expect(validateTemplate(template({ elements: [table({ minRowsPerPage: 0 })] })).valid).toBe(false)
+    expect(validateTemplate(template({ elements: [table({ minRowsPerPage: 3 })] })).valid).toBe(true)
+  })
+
+  it('checks table columns', () => {
+    const columns = [
+      { key: 'a', cellTpl: '{{ row.a }}', widthPct: 80 },
+      { key: 'a', cellTpl: '{{ row. }}', widthPct: 40 },
+    ]
+    expect(diagnostics(template({ elements: [table({ columns })] }))).toEqual([
+      ['error', '$.elements[0].columns[1].key'],
+      ['error', '$.elements[0].columns[1].cellTpl'],
+      ['warning', '$.elements[0].columns'],
+    ])
+  })
+
+  it('keeps warnings from making the template invalid', () => {
+    const elements = [{ id: 'txt', type: 'text', rect: { xPt: 9000, yPt: 40, wPt: 10, hPt: 10 }, textTpl: 'a {{ b' }]
+    const result = validateTemplate(template({ elements }))
+    expect(result.valid).toBe(true)
+    expect(result.diagnostics.map((d) => [d.severity, d.path])).toEqual([
+      ['warning', '$.elements[0].rect'],
+      ['warning', '$.elements[0].textTpl'],
+    ])
+  })
+
+  it('reserves the first page id and rejects duplicate page ids', () => {
+    const pages = [
+      { id: 'page_1', elements: [] },
+      { id: 'p2', elements: [] },
+      { id: 'p2', elements: [] },
+    ]
+    expect(diagnostics(template({ pages }))).toEqual([
+      ['error', '$.pages[0].id'],
+      ['error', '$.pages[2].id'],
+    ])
+  })
+})
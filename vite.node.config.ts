@@ -0,0 +1,40 @@
+import { builtinModules } from 'node:module'
+import { defineConfig } from 'vite'
+import pkg from './package.json'
+import { packageJsonSchema, templateJsonSchema } from './src/core/jsonSchema'
+
+// Node build of the DOM-free entrypoint and the CLI. Dependencies stay external so Node resolves
+// their own server builds (e.g. jspdf's "node" export).
+export default defineConfig({
+  plugins: [
+    {
+      name: 'emit-json-schemas',
+      generateBundle() {
+        const emit = (fileName: string, schema: unknown) =>
+          this.emitFile({ type: 'asset', fileName, source: `${JSON.stringify(schema, null, 2)}\n` })
+        emit('schema/docTemplate-v1.schema.json', templateJsonSchema)
+        emit('schema/docTemplatePackage-v1.schema.json', packageJsonSchema)
+      },
+    },
+  ],
+  build: {
+    lib: {
+      entry: { node: 'src/lib/node.ts', cli: 'src/cli/index.ts' },
+      formats: ['es'],
+      fileName: (_format, name) => `${name}.js`,
+    },
+    outDir: 'dist',
+    emptyOutDir: false,
+    target: 'node18',
+    rollupOptions: {
+      external: [
+        ...Object.keys(pkg.dependencies),
+        ...builtinModules,
+        ...builtinModules.map((m) => `node:${m}`),
+      ],
+      output: {
+        banner: (chunk) => (chunk.name === 'cli' ? '#!/usr/bin/env node' : ''),
+      },
+    },
+  },
+})